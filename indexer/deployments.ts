@@ -0,0 +1,69 @@
+// Wolf Game deployments the indexer knows about, keyed by Ponder chain name.
+// Pick which ones to index with PONDER_DEPLOYMENTS (comma separated, default "baseSepolia").
+// The web app reads its contract addresses from here too (web/src/lib/contracts.ts).
+
+export interface Deployment {
+  chainId: number;
+  rpcEnvVar: string;                   // Env var holding the RPC URL
+  defaultRpc: string;                  // Public RPC used when the env var is unset
+  startBlocks: {                       // First block to index, per contract
+    barn: number;
+    woolf: number;
+    wool: number;
+    vrfCoordinator: number;
+  };
+  snapshotInterval: number;            // Blocks between barn_snapshots rows
+  contracts: {
+    barn: `0x${string}`;
+    woolf: `0x${string}`;
+    wool: `0x${string}`;
+    traits: `0x${string}`;             // Not indexed; read by the web app
+    vrfCoordinator: `0x${string}`;     // Chainlink VRF v2.5 coordinator
+  };
+  retiredBarns: `0x${string}`[];       // Earlier Barns; tokens staked there never came back out
+  vrfSubscriptionId: bigint;           // Subscription Woolf/Barn pay from
+}
+
+export const deployments = {
+  // SheepStolen event deployment (Dec 6, 2025)
+  baseSepolia: {
+    chainId: 84532,
+    rpcEnvVar: "PONDER_RPC_URL_84532",
+    defaultRpc: "https://sepolia.base.org",
+    startBlocks: {
+      barn: 34642119,
+      woolf: 34298643,                 // Woolf deployment (predates the Barn redeploy)
+      wool: 34298643,                  // Wool deployment, so balances and supply start from zero
+      vrfCoordinator: 34642119,
+    },
+    snapshotInterval: 1800,            // ~1 hour at 2s blocks
+    contracts: {
+      barn: "0x6C19CDba7402d644D728310b1A5825C96Be0519F",
+      woolf: "0x916A56f76EC06565E0EB55720b9DAE85aE033937",
+      wool: "0xe3DbA8DB9BD0794067E6f8069f489A6ca23Ea492",
+      traits: "0x6CB7Ac725369023079b89beb753e1afe05C9bced",
+      vrfCoordinator: "0x5C210eF41CD1a72de73bF76eC39637bB0d3d7BEE",
+    },
+    retiredBarns: ["0xA0FFF6B169875b037016034BE628f6dD8fA19D75"], // Replaced by the Barn redeploy
+    // BigInt() rather than a literal, since the web app compiles this file for ES2017
+    vrfSubscriptionId: BigInt("4575999402920596535752346196544795076338835071088402032750243681588020164899"),
+  },
+} satisfies Record<string, Deployment>;
+
+/**
+ * Deployments selected by PONDER_DEPLOYMENTS, in the order given.
+ * The first one is the default chain for API queries.
+ */
+export function selectedDeployments(): [string, Deployment][] {
+  const names = (process.env.PONDER_DEPLOYMENTS ?? "baseSepolia")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name !== "");
+
+  return names.map((name) => {
+    if (!(name in deployments)) {
+      throw new Error(`Unknown deployment "${name}" in PONDER_DEPLOYMENTS`);
+    }
+    return [name, deployments[name as keyof typeof deployments]];
+  });
+}
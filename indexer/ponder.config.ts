@@ -1,13 +1,16 @@
 import { createConfig } from "ponder";
+import { selectedDeployments, type Deployment } from "./deployments.js";
 
-// Contract addresses (Base Sepolia - SheepStolen event deployment Dec 6, 2025)
-const BARN_ADDRESS = "0x6C19CDba7402d644D728310b1A5825C96Be0519F" as const;
-const WOOLF_ADDRESS = "0x916A56f76EC06565E0EB55720b9DAE85aE033937" as const;
+const DEPLOYMENTS = selectedDeployments();
 
-// Deployment block (new Barn deployment)
-const START_BLOCK = 34642119;
+/**
+ * Per-chain contract config for every selected deployment
+ */
+function onDeployments<T>(config: (deployment: Deployment) => T): Record<string, T> {
+  return Object.fromEntries(DEPLOYMENTS.map(([name, deployment]) => [name, config(deployment)]));
+}
 
-// Barn ABI - only the events we need
+// Barn ABI - the events we need, plus views read for barn_snapshots
 const BarnAbi = [
   {
     type: "event",
@@ -50,10 +53,138 @@ const BarnAbi = [
     ],
     anonymous: false,
   },
+  {
+    type: "event",
+    name: "UnstakeRequested",
+    inputs: [
+      { name: "requestId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "owner", type: "address", indexed: true, internalType: "address" },
+      { name: "sheepCount", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "wolfCount", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "PendingUnstakeRescued",
+    inputs: [
+      { name: "requestId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "owner", type: "address", indexed: true, internalType: "address" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "DailyWoolRateChanged",
+    inputs: [
+      { name: "oldRate", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "newRate", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "MinimumToExitChanged",
+    inputs: [
+      { name: "oldTime", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "newTime", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "WoolClaimTaxPercentageChanged",
+    inputs: [
+      { name: "oldPercentage", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "newPercentage", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "SheepStealChanceChanged",
+    inputs: [
+      { name: "oldChance", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "newChance", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "RescueEnabledChanged",
+    inputs: [
+      { name: "enabled", type: "bool", indexed: false, internalType: "bool" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "function",
+    name: "totalSheepStaked",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "totalAlphaStaked",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "woolPerAlpha",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "totalWoolEarned",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "unaccountedRewards",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view",
+  },
+] as const;
+
+// VRF Coordinator ABI - fulfillment event (carries the requestId Barn's callback logs lack)
+const VRFCoordinatorAbi = [
+  {
+    type: "event",
+    name: "RandomWordsFulfilled",
+    inputs: [
+      { name: "requestId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "outputSeed", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "subId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "payment", type: "uint96", indexed: false, internalType: "uint96" },
+      { name: "nativePayment", type: "bool", indexed: false, internalType: "bool" },
+      { name: "success", type: "bool", indexed: false, internalType: "bool" },
+      { name: "onlyPremium", type: "bool", indexed: false, internalType: "bool" },
+    ],
+    anonymous: false,
+  },
 ] as const;
 
 // Woolf ABI - only the events we need
 const WoolfAbi = [
+  {
+    type: "event",
+    name: "MintRequested",
+    inputs: [
+      { name: "requestId", type: "uint256", indexed: true, internalType: "uint256" },
+      { name: "minter", type: "address", indexed: true, internalType: "address" },
+      { name: "amount", type: "uint256", indexed: false, internalType: "uint256" },
+      { name: "stake", type: "bool", indexed: false, internalType: "bool" },
+    ],
+    anonymous: false,
+  },
   {
     type: "event",
     name: "MintFulfilled",
@@ -108,27 +239,90 @@ const WoolfAbi = [
     ],
     stateMutability: "view",
   },
+  {
+    type: "function",
+    name: "PAID_TOKENS",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "minted",
+    inputs: [],
+    outputs: [{ name: "", type: "uint16", internalType: "uint16" }],
+    stateMutability: "view",
+  },
 ] as const;
 
-export default createConfig({
-  chains: {
-    baseSepolia: {
-      id: 84532,
-      rpc: process.env.PONDER_RPC_URL_84532 ?? "https://sepolia.base.org",
-    },
+// Wool ABI - ERC20 transfers (mint/burn via zero address) and controller changes
+const WoolAbi = [
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { name: "from", type: "address", indexed: true, internalType: "address" },
+      { name: "to", type: "address", indexed: true, internalType: "address" },
+      { name: "value", type: "uint256", indexed: false, internalType: "uint256" },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "ControllerSet",
+    inputs: [
+      { name: "controller", type: "address", indexed: true, internalType: "address" },
+      { name: "allowed", type: "bool", indexed: false, internalType: "bool" },
+    ],
+    anonymous: false,
   },
+] as const;
+
+export default createConfig({
+  chains: onDeployments((deployment) => ({
+    id: deployment.chainId,
+    rpc: process.env[deployment.rpcEnvVar] ?? deployment.defaultRpc,
+  })),
   contracts: {
     Barn: {
       abi: BarnAbi,
-      chain: "baseSepolia",
-      address: BARN_ADDRESS,
-      startBlock: START_BLOCK,
+      chain: onDeployments((deployment) => ({
+        address: deployment.contracts.barn,
+        startBlock: deployment.startBlocks.barn,
+      })),
     },
     Woolf: {
       abi: WoolfAbi,
-      chain: "baseSepolia",
-      address: WOOLF_ADDRESS,
-      startBlock: START_BLOCK,
+      chain: onDeployments((deployment) => ({
+        address: deployment.contracts.woolf,
+        startBlock: deployment.startBlocks.woolf,
+      })),
+    },
+    Wool: {
+      abi: WoolAbi,
+      chain: onDeployments((deployment) => ({
+        address: deployment.contracts.wool,
+        startBlock: deployment.startBlocks.wool,
+      })),
+    },
+    VRFCoordinator: {
+      abi: VRFCoordinatorAbi,
+      chain: onDeployments((deployment) => ({
+        address: deployment.contracts.vrfCoordinator,
+        startBlock: deployment.startBlocks.vrfCoordinator,
+        filter: {
+          event: "RandomWordsFulfilled" as const,
+          args: { subId: deployment.vrfSubscriptionId },
+        },
+      })),
+    },
+  },
+  blocks: {
+    BarnSnapshot: {
+      chain: onDeployments((deployment) => ({
+        startBlock: deployment.startBlocks.barn,
+        interval: deployment.snapshotInterval,
+      })),
     },
   },
 });
@@ -1,38 +1,157 @@
-import { onchainTable } from "ponder";
+import { onchainTable, onchainEnum, index, primaryKey, relations } from "ponder";
+
+// Sheep/wolf traits read from Woolf.getTokenTraits (immutable once minted)
+export const tokenTraits = onchainTable("token_traits", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  tokenId: t.integer().notNull(),      // Token ID
+  isSheep: t.boolean().notNull(),      // Is this a sheep or wolf
+  fur: t.integer().notNull(),
+  head: t.integer().notNull(),
+  ears: t.integer().notNull(),
+  eyes: t.integer().notNull(),
+  nose: t.integer().notNull(),
+  mouth: t.integer().notNull(),
+  neck: t.integer().notNull(),
+  feet: t.integer().notNull(),
+  alphaIndex: t.integer().notNull(),   // Alpha index (0-3 = alpha 8-5, wolves only)
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.tokenId] }),
+}));
+
+// Every address that has owned or staked a token (first seen on a Woolf Transfer or stake).
+// Game contracts holding tokens (the Barn, retired Barns) are not players.
+export const players = onchainTable("players", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  address: t.hex().notNull(),
+  firstSeenBlock: t.bigint().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.address] }),
+}));
+
+// Track current ownership of every token (updated on every Woolf Transfer)
+export const tokens = onchainTable("tokens", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  tokenId: t.integer().notNull(),      // Token ID
+  owner: t.hex().notNull(),            // Current owner (the staker while escrowed in Barn)
+  isSheep: t.boolean().notNull(),      // Is this a sheep or wolf
+  alphaIndex: t.integer().notNull(),   // Alpha index (0-3 = alpha 8-5, wolves only)
+  isStaked: t.boolean().notNull(),     // Currently earning in the Barn
+  isEscrowed: t.boolean().notNull(),   // Held by the Barn contract (staked or pending unstake)
+  lastTransferBlock: t.bigint().notNull(), // Block of the most recent Transfer
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.tokenId] }),
+  ownerIdx: index().on(table.owner),
+}));
+
+// Every Woolf Transfer (mints, Barn escrow moves, steals and plain transfers)
+export const tokenTransfers = onchainTable("token_transfers", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  id: t.text().primaryKey(),           // tx_hash + log_index
+  tokenId: t.integer().notNull(),
+  from: t.hex().notNull(),
+  to: t.hex().notNull(),
+  txHash: t.hex().notNull(),
+  blockNumber: t.bigint().notNull(),
+  logIndex: t.integer().notNull(),
+  timestamp: t.bigint().notNull(),
+}), (table) => ({
+  tokenIdx: index().on(table.chainId, table.tokenId),
+}));
 
 // Track current staked token ownership (updated on stake/claim/unstake)
 export const stakedTokens = onchainTable("staked_tokens", (t) => ({
-  tokenId: t.integer().primaryKey(),   // Token ID as primary key
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  tokenId: t.integer().notNull(),      // Token ID
   owner: t.hex().notNull(),            // Current owner
   isSheep: t.boolean().notNull(),      // Is this a sheep or wolf
   stakedAt: t.bigint().notNull(),      // When staked (block timestamp)
+  stakeValue: t.bigint().notNull(),    // Barn Stake.value: last claim time (sheep) or woolPerAlpha at last claim (wolves)
+  stakeId: t.text().notNull(),         // stakes.id of the current stake
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.tokenId] }),
+  ownerIdx: index().on(table.chainId, table.owner),
 }));
 
 // Track when sheep are stolen by wolves
+export const stealType = onchainEnum("steal_type", ["unstake", "mint"]);
+
 export const steals = onchainTable("steals", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
   id: t.text().primaryKey(),           // tx_hash + log_index
   sheepTokenId: t.integer().notNull(),  // The stolen sheep's token ID
   wolfOwner: t.hex().notNull(),         // Who received the sheep (wolf owner)
   previousOwner: t.hex().notNull(),     // Who lost the sheep
+  stealType: stealType("steal_type").notNull(), // Eaten on unstake, or mint intercepted
   txHash: t.hex().notNull(),            // Transaction hash
   blockNumber: t.bigint().notNull(),    // Block number
   timestamp: t.bigint().notNull(),      // Unix timestamp
+}), (table) => ({
+  timestampIdx: index().on(table.chainId, table.timestamp, table.id),
+  blockIdx: index().on(table.blockNumber),
+  wolfOwnerIdx: index().on(table.wolfOwner),
+  previousOwnerIdx: index().on(table.previousOwner),
+  tokenIdx: index().on(table.sheepTokenId),
+  txHashIdx: index().on(table.txHash),
+}));
+
+// Staked alpha per tier when each steal happened (one row per tier), for the fairness audit.
+// randomWolfOwner picks a wolf with probability alpha / total staked alpha.
+export const stealOdds = onchainTable("steal_odds", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  id: t.text().primaryKey(),           // steal id + alpha
+  stealId: t.text().notNull(),         // steals.id
+  stealType: stealType("steal_type").notNull(),
+  alpha: t.integer().notNull(),        // Tier (5-8)
+  packAlpha: t.integer().notNull(),    // Alpha staked in this tier by everyone
+  packTotalAlpha: t.integer().notNull(), // Alpha staked across all tiers
+  winnerAlpha: t.integer().notNull(),  // Alpha staked in this tier by the winning owner
+  winnerTotalAlpha: t.integer().notNull(), // Alpha the winning owner staked across all tiers
+  blockNumber: t.bigint().notNull(),
+}), (table) => ({
+  blockIdx: index().on(table.chainId, table.blockNumber),
+}));
+
+// Push notifications waiting to be delivered by the dispatcher (src/api/dispatcher.ts).
+// Rebuilt with the rest of the index, so ids must be stable across resyncs.
+export const notificationOutbox = onchainTable("notification_outbox", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  id: t.text().primaryKey(),           // tx_hash + log_index of the source event
+  recipient: t.hex().notNull(),        // Wallet to notify
+  tokenId: t.integer().notNull(),      // Token the notification is about
+  stealType: stealType("steal_type").notNull(), // Eaten on unstake, or mint intercepted
+  txHash: t.hex().notNull(),
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+}), (table) => ({
+  blockIdx: index().on(table.chainId, table.blockNumber, table.id),
 }));
 
 // Track all sheep claim events (both survived and eaten)
 export const sheepClaims = onchainTable("sheep_claims", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
   id: t.text().primaryKey(),           // tx_hash + log_index
   tokenId: t.integer().notNull(),      // Sheep token ID
   owner: t.hex().notNull(),            // Owner who unstaked
   woolEarned: t.bigint().notNull(),    // WOOL earned
+  unstaked: t.boolean().notNull(),     // Was the sheep unstaked (a survival attempt)?
   wasEaten: t.boolean().notNull(),     // Did the sheep get stolen?
+  taxPaid: t.bigint().notNull(),       // Tax withheld: claimMany and VRF-settled survivors only (rescues pay none)
+  stakeId: t.text(),                   // stakes.id the claim was paid from (null if not indexed)
   txHash: t.hex().notNull(),
   blockNumber: t.bigint().notNull(),
   timestamp: t.bigint().notNull(),
+}), (table) => ({
+  timestampIdx: index().on(table.chainId, table.timestamp, table.id),
+  blockIdx: index().on(table.blockNumber),
+  ownerIdx: index().on(table.owner),
+  tokenIdx: index().on(table.tokenId),
+  txHashIdx: index().on(table.txHash),
+  stakeIdx: index().on(table.stakeId),
 }));
 
 // Track staking events
 export const stakes = onchainTable("stakes", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
   id: t.text().primaryKey(),           // tx_hash + log_index
   tokenId: t.integer().notNull(),
   owner: t.hex().notNull(),
@@ -40,15 +159,356 @@ export const stakes = onchainTable("stakes", (t) => ({
   txHash: t.hex().notNull(),
   blockNumber: t.bigint().notNull(),
   timestamp: t.bigint().notNull(),
+}), (table) => ({
+  timestampIdx: index().on(table.chainId, table.timestamp, table.id),
+  blockIdx: index().on(table.blockNumber),
+  ownerIdx: index().on(table.owner),
+  tokenIdx: index().on(table.tokenId),
 }));
 
 // Track mints
 export const mints = onchainTable("mints", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
   id: t.text().primaryKey(),           // tx_hash + log_index
   tokenId: t.integer().notNull(),
   owner: t.hex().notNull(),
   isSheep: t.boolean().notNull(),
+  requestId: t.bigint().notNull(),     // Mint VRF request that produced the token
   txHash: t.hex().notNull(),
   blockNumber: t.bigint().notNull(),
   timestamp: t.bigint().notNull(),
+}), (table) => ({
+  timestampIdx: index().on(table.chainId, table.timestamp, table.id),
+  blockIdx: index().on(table.blockNumber),
+  ownerIdx: index().on(table.owner),
+  tokenIdx: index().on(table.tokenId),
+  requestIdx: index().on(table.chainId, table.requestId),
+}));
+
+// Track all wolf claim events (tax collected from the pack)
+export const wolfClaims = onchainTable("wolf_claims", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  id: t.text().primaryKey(),           // tx_hash + log_index
+  tokenId: t.integer().notNull(),      // Wolf token ID
+  owner: t.hex().notNull(),            // Owner who claimed
+  woolEarned: t.bigint().notNull(),    // WOOL earned from tax
+  unstaked: t.boolean().notNull(),     // Was the wolf unstaked?
+  alpha: t.integer().notNull(),        // Alpha score (5-8)
+  stakeId: t.text(),                   // stakes.id the claim was paid from (null if not indexed)
+  txHash: t.hex().notNull(),
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+}), (table) => ({
+  tokenIdx: index().on(table.tokenId),
+  stakeIdx: index().on(table.stakeId),
+}));
+
+// Lifetime aggregates per wolf (updated on stake/claim/steal)
+export const wolfStats = onchainTable("wolf_stats", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  tokenId: t.integer().notNull(),      // Wolf token ID
+  owner: t.hex().notNull(),            // Most recent staker
+  alpha: t.integer().notNull(),        // Alpha score (5-8)
+  lifetimeTax: t.bigint().notNull(),   // Total WOOL claimed
+  claimCount: t.integer().notNull(),   // Number of claims
+  stealsCredited: t.doublePrecision().notNull(), // Expected share of owner's steals (see creditWolfSteal)
+  timeInPack: t.bigint().notNull(),    // Seconds staked, across completed stakes
+  stakedAt: t.bigint(),                // Current stake start (null when not staked)
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.tokenId] }),
+  ownerIdx: index().on(table.owner),
+  lifetimeTaxIdx: index().on(table.chainId, table.lifetimeTax, table.tokenId),
+}));
+
+// Wolves each owner has staked, so a steal can be credited without scanning wolf_stats
+export const wolfPacks = onchainTable("wolf_packs", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  owner: t.hex().notNull(),            // Staker
+  tokenIds: t.integer().array().notNull(), // Staked wolves (empty once all have left)
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.owner] }),
+}));
+
+// Staked wolves per alpha tier across all owners (the odds randomWolfOwner draws from)
+export const alphaTiers = onchainTable("alpha_tiers", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  alpha: t.integer().notNull(),        // Tier (5-8)
+  wolves: t.integer().notNull(),       // Wolves currently staked in the tier
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.alpha] }),
+}));
+
+// Lifecycle of a Barn.unstakeMany VRF request
+export const unstakeStatus = onchainEnum("unstake_status", ["pending", "fulfilled", "rescued"]);
+
+export const unstakeRequests = onchainTable("unstake_requests", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  requestId: t.bigint().notNull(),     // VRF request ID
+  owner: t.hex().notNull(),            // Who requested the unstake
+  sheepCount: t.integer().notNull(),
+  wolfCount: t.integer().notNull(),
+  status: unstakeStatus("status").notNull(),
+  txHash: t.hex().notNull(),           // Request transaction
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+  settledTxHash: t.hex(),              // VRF fulfillment or rescue transaction
+  settledBlockNumber: t.bigint(),
+  settledTimestamp: t.bigint(),
+  latencyBlocks: t.bigint(),           // Request -> fulfillment (fulfilled only)
+  latencySeconds: t.bigint(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.requestId] }),
+  ownerIdx: index().on(table.owner),
+}));
+
+// Lifecycle of a Woolf mint VRF request
+export const mintStatus = onchainEnum("mint_status", ["pending", "fulfilled"]);
+
+export const mintRequests = onchainTable("mint_requests", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  requestId: t.bigint().notNull(),     // VRF request ID
+  minter: t.hex().notNull(),           // Who paid for the mint
+  amount: t.integer().notNull(),       // Number of tokens requested
+  stake: t.boolean().notNull(),        // Auto-stake after mint
+  status: mintStatus("status").notNull(),
+  txHash: t.hex().notNull(),           // Request transaction
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+  fulfillTxHash: t.hex(),              // VRF fulfillment transaction
+  fulfillBlockNumber: t.bigint(),
+  fulfillTimestamp: t.bigint(),
+  latencyBlocks: t.bigint(),           // Request -> fulfillment
+  latencySeconds: t.bigint(),
+  tokenIds: t.integer().array(),       // Every token minted by the request
+  interceptedTokenIds: t.integer().array(), // Subset sent to wolf owners instead
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.requestId] }),
+  minterIdx: index().on(table.minter),
+  timestampIdx: index().on(table.chainId, table.timestamp, table.requestId),
+}));
+
+// History of Barn admin parameter changes
+export const barnParameter = onchainEnum("barn_parameter", [
+  "dailyWoolRate",
+  "minimumToExit",
+  "woolClaimTaxPercentage",
+  "sheepStealChance",
+  "rescueEnabled",
+]);
+
+export const parameterChanges = onchainTable("parameter_changes", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  id: t.text().primaryKey(),           // tx_hash + log_index
+  parameter: barnParameter("parameter").notNull(),
+  oldValue: t.bigint(),                // Null for rescueEnabled (event has no old value)
+  newValue: t.bigint().notNull(),      // Booleans stored as 0/1
+  txHash: t.hex().notNull(),
+  blockNumber: t.bigint().notNull(),   // Effective from this block
+  logIndex: t.integer().notNull(),     // Orders changes within a block
+  timestamp: t.bigint().notNull(),
+}), (table) => ({
+  parameterIdx: index().on(table.parameter),
+}));
+
+// Value in force for each Barn admin parameter (the latest parameter_changes row)
+export const gameParameters = onchainTable("game_parameters", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  parameter: barnParameter("parameter").notNull(),
+  value: t.bigint().notNull(),         // Booleans stored as 0/1
+  blockNumber: t.bigint().notNull(),   // Block of the change that set it
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.parameter] }),
+}));
+
+// Current WOOL balance per holder (updated on every Wool Transfer)
+export const woolBalances = onchainTable("wool_balances", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  address: t.hex().notNull(),          // Holder address
+  balance: t.bigint().notNull(),       // Current balance (wei)
+  lastTransferBlock: t.bigint().notNull(),
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.address] }),
+  balanceIdx: index().on(table.balance),
+}));
+
+// Daily WOOL supply snapshots (UTC day), written on every mint/burn
+export const woolSupply = onchainTable("wool_supply", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  day: t.text().notNull(),             // UTC day, YYYY-MM-DD
+  minted: t.bigint().notNull(),        // Minted during the day
+  burned: t.bigint().notNull(),        // Burned during the day (Gen1+ mint costs)
+  totalMinted: t.bigint().notNull(),   // Cumulative, end of day
+  totalBurned: t.bigint().notNull(),   // Cumulative, end of day
+  totalSupply: t.bigint().notNull(),   // totalMinted - totalBurned, end of day
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.day] }),
+}));
+
+// Game economy rollups per UTC day (updated by the event handlers)
+export const dailyStats = onchainTable("daily_stats", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  day: t.text().notNull(),             // UTC day, YYYY-MM-DD
+  mints: t.integer().notNull(),        // Tokens minted (including intercepted)
+  gen0Mints: t.integer().notNull(),    // Paid in ETH (tokenId <= PAID_TOKENS)
+  gen1Mints: t.integer().notNull(),    // Paid in WOOL
+  stakes: t.integer().notNull(),
+  sheepClaims: t.integer().notNull(),  // Claims and unstakes
+  sheepEaten: t.integer().notNull(),   // Unstakes lost to wolves
+  mintIntercepts: t.integer().notNull(), // Mints sent to a wolf owner
+  woolClaimed: t.bigint().notNull(),   // Sheep earnings plus wolf tax claimed
+  taxPaid: t.bigint().notNull(),       // sheep_claims.taxPaid for the day
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.day] }),
+}));
+
+// Barn and Woolf view values sampled every snapshotInterval blocks (see deployments.ts)
+export const barnSnapshots = onchainTable("barn_snapshots", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  blockNumber: t.bigint().notNull(),
+  timestamp: t.bigint().notNull(),
+  totalSheepStaked: t.bigint().notNull(),
+  totalAlphaStaked: t.bigint().notNull(), // Sum of alpha over staked wolves
+  woolPerAlpha: t.bigint().notNull(),  // Cumulative tax accrued per unit of alpha
+  totalWoolEarned: t.bigint().notNull(), // Counts toward MAXIMUM_GLOBAL_WOOL
+  unaccountedRewards: t.bigint().notNull(), // Tax paid while no wolves were staked
+  minted: t.integer().notNull(),       // Woolf.minted
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.blockNumber] }),
+}));
+
+// Addresses allowed to mint/burn WOOL
+export const woolControllers = onchainTable("wool_controllers", (t) => ({
+  chainId: t.integer().notNull(),      // Chain the row was indexed from
+  address: t.hex().notNull(),
+  allowed: t.boolean().notNull(),
+  updatedAt: t.bigint().notNull(),     // Block timestamp of the last ControllerSet
+}), (table) => ({
+  pk: primaryKey({ columns: [table.chainId, table.address] }),
+}));
+
+// Relations between tables, exposed as nested fields by the GraphQL API
+
+export const playersRelations = relations(players, ({ many, one }) => ({
+  tokens: many(tokens),
+  mints: many(mints),
+  stakes: many(stakes),
+  sheepClaims: many(sheepClaims),
+  wolfClaims: many(wolfClaims),
+  mintRequests: many(mintRequests),
+  woolBalance: one(woolBalances, {
+    fields: [players.chainId, players.address],
+    references: [woolBalances.chainId, woolBalances.address],
+  }),
+}));
+
+export const tokensRelations = relations(tokens, ({ many, one }) => ({
+  player: one(players, {
+    fields: [tokens.chainId, tokens.owner],
+    references: [players.chainId, players.address],
+  }),
+  traits: one(tokenTraits, {
+    fields: [tokens.chainId, tokens.tokenId],
+    references: [tokenTraits.chainId, tokenTraits.tokenId],
+  }),
+  wolfStats: one(wolfStats, {
+    fields: [tokens.chainId, tokens.tokenId],
+    references: [wolfStats.chainId, wolfStats.tokenId],
+  }),
+  mints: many(mints),
+  stakes: many(stakes),
+  sheepClaims: many(sheepClaims),
+  wolfClaims: many(wolfClaims),
+  steals: many(steals),
+  transfers: many(tokenTransfers),
+}));
+
+export const mintsRelations = relations(mints, ({ one }) => ({
+  token: one(tokens, {
+    fields: [mints.chainId, mints.tokenId],
+    references: [tokens.chainId, tokens.tokenId],
+  }),
+  player: one(players, {
+    fields: [mints.chainId, mints.owner],
+    references: [players.chainId, players.address],
+  }),
+  request: one(mintRequests, {
+    fields: [mints.chainId, mints.requestId],
+    references: [mintRequests.chainId, mintRequests.requestId],
+  }),
+}));
+
+export const mintRequestsRelations = relations(mintRequests, ({ many, one }) => ({
+  mints: many(mints),
+  player: one(players, {
+    fields: [mintRequests.chainId, mintRequests.minter],
+    references: [players.chainId, players.address],
+  }),
+}));
+
+export const stakesRelations = relations(stakes, ({ many, one }) => ({
+  token: one(tokens, {
+    fields: [stakes.chainId, stakes.tokenId],
+    references: [tokens.chainId, tokens.tokenId],
+  }),
+  player: one(players, {
+    fields: [stakes.chainId, stakes.owner],
+    references: [players.chainId, players.address],
+  }),
+  // Claims paid out while this stake was active, including the unstake
+  sheepClaims: many(sheepClaims),
+  wolfClaims: many(wolfClaims),
+}));
+
+export const sheepClaimsRelations = relations(sheepClaims, ({ one }) => ({
+  token: one(tokens, {
+    fields: [sheepClaims.chainId, sheepClaims.tokenId],
+    references: [tokens.chainId, tokens.tokenId],
+  }),
+  player: one(players, {
+    fields: [sheepClaims.chainId, sheepClaims.owner],
+    references: [players.chainId, players.address],
+  }),
+  stake: one(stakes, {
+    fields: [sheepClaims.stakeId],
+    references: [stakes.id],
+  }),
+  // The steal that took the sheep, when it was eaten
+  steal: one(steals, {
+    fields: [sheepClaims.chainId, sheepClaims.txHash, sheepClaims.tokenId],
+    references: [steals.chainId, steals.txHash, steals.sheepTokenId],
+  }),
+}));
+
+export const wolfClaimsRelations = relations(wolfClaims, ({ one }) => ({
+  token: one(tokens, {
+    fields: [wolfClaims.chainId, wolfClaims.tokenId],
+    references: [tokens.chainId, tokens.tokenId],
+  }),
+  player: one(players, {
+    fields: [wolfClaims.chainId, wolfClaims.owner],
+    references: [players.chainId, players.address],
+  }),
+  stake: one(stakes, {
+    fields: [wolfClaims.stakeId],
+    references: [stakes.id],
+  }),
+}));
+
+export const stealsRelations = relations(steals, ({ one }) => ({
+  token: one(tokens, {
+    fields: [steals.chainId, steals.sheepTokenId],
+    references: [tokens.chainId, tokens.tokenId],
+  }),
+  // The unstake claim the sheep was eaten on (none for mint intercepts)
+  claim: one(sheepClaims, {
+    fields: [steals.chainId, steals.txHash, steals.sheepTokenId],
+    references: [sheepClaims.chainId, sheepClaims.txHash, sheepClaims.tokenId],
+  }),
+}));
+
+export const tokenTransfersRelations = relations(tokenTransfers, ({ one }) => ({
+  token: one(tokens, {
+    fields: [tokenTransfers.chainId, tokenTransfers.tokenId],
+    references: [tokens.chainId, tokens.tokenId],
+  }),
 }));
@@ -0,0 +1,151 @@
+import type { Context } from "hono";
+import { db } from "ponder:api";
+import {
+  sheepClaims,
+  unstakeRequests,
+  parameterChanges,
+  steals,
+  dailyStats,
+  stealOdds,
+} from "ponder:schema";
+import { and, asc, count, eq, inArray, sql } from "ponder";
+import type { ApiEnv } from "./query.js";
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.96;
+
+// Barn.sheepStealChance at deployment, and Woolf._selectRecipient's 1-in-10 intercept roll
+const DEFAULT_STEAL_CHANCE = 50;
+const MINT_INTERCEPT_CHANCE = 0.1;
+
+/**
+ * Observed vs expected for `samples` independent trials. `expected` and
+ * `variance` are sums over trials (p and p(1-p)), so trials may have different odds.
+ */
+function compare(samples: number, observed: number, expected: number, variance: number) {
+  const observedRate = samples > 0 ? observed / samples : null;
+  const expectedRate = samples > 0 ? expected / samples : null;
+  const margin = samples > 0 ? (Z_95 * Math.sqrt(variance)) / samples : null;
+  return {
+    samples,
+    observed,
+    expected,
+    observedRate,
+    expectedRate,
+    // Range the observed rate should land in 95% of the time if the odds are as configured
+    expectedRange95:
+      expectedRate !== null && margin !== null
+        ? [Math.max(0, expectedRate - margin), Math.min(1, expectedRate + margin)]
+        : null,
+    zScore: variance > 0 ? (observed - expected) / Math.sqrt(variance) : null,
+  };
+}
+
+/**
+ * Wilson score interval for a binomial proportion
+ */
+function wilson(successes: number, trials: number): [number, number] | null {
+  if (trials === 0) return null;
+  const p = successes / trials;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const half =
+    (Z_95 * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / (1 + z2 / trials);
+  return [Math.max(0, center - half), Math.min(1, center + half)];
+}
+
+/**
+ * GET /audit/fairness - observed randomness outcomes against the configured odds.
+ *
+ * - sheepEaten: VRF-settled unstakes only (rescues and emergency exits don't roll),
+ *   each compared to the sheepStealChance in force at the time.
+ * - mintIntercepts: Gen1+ mints against the 10% roll. This is an upper bound -
+ *   a roll is void when no wolves are staked or the thief is the minter.
+ * - alphaTiers: each steal's winning owner split across their staked tiers by
+ *   alpha, against each tier's share of all staked alpha at that moment.
+ */
+export async function fairnessAudit(c: Context<ApiEnv>) {
+  const chainId = c.get("chainId");
+
+  // Steal chance in force when each sheep claim happened
+  const stealChance = sql`coalesce((
+    select ${parameterChanges.newValue} from ${parameterChanges}
+    where ${parameterChanges.chainId} = ${sheepClaims.chainId}
+      and ${parameterChanges.parameter} = 'sheepStealChance'
+      and ${parameterChanges.blockNumber} <= ${sheepClaims.blockNumber}
+    order by ${parameterChanges.blockNumber} desc, ${parameterChanges.logIndex} desc
+    limit 1
+  ), ${DEFAULT_STEAL_CHANCE})::float8 / 100`;
+
+  const vrfSettled = db
+    .select({ txHash: unstakeRequests.settledTxHash })
+    .from(unstakeRequests)
+    .where(and(eq(unstakeRequests.chainId, chainId), eq(unstakeRequests.status, "fulfilled")));
+
+  const [[unstakes], [gen1], [intercepts], tiers] = await Promise.all([
+    db
+      .select({
+        samples: count(),
+        eaten: sql<number>`count(*) filter (where ${sheepClaims.wasEaten})`.mapWith(Number),
+        expected: sql<number>`coalesce(sum(${stealChance}), 0)`.mapWith(Number),
+        variance: sql<number>`coalesce(sum(${stealChance} * (1 - ${stealChance})), 0)`.mapWith(Number),
+      })
+      .from(sheepClaims)
+      .where(
+        and(
+          eq(sheepClaims.chainId, chainId),
+          eq(sheepClaims.unstaked, true),
+          inArray(sheepClaims.txHash, vrfSettled)
+        )
+      ),
+    db
+      .select({ mints: sql<number>`coalesce(sum(${dailyStats.gen1Mints}), 0)`.mapWith(Number) })
+      .from(dailyStats)
+      .where(eq(dailyStats.chainId, chainId)),
+    db
+      .select({ count: count() })
+      .from(steals)
+      .where(and(eq(steals.chainId, chainId), eq(steals.stealType, "mint"))),
+    db
+      .select({
+        alpha: stealOdds.alpha,
+        samples: count(),
+        observed: sql<number>`sum(
+          ${stealOdds.winnerAlpha}::float8 / ${stealOdds.winnerTotalAlpha}
+        )`.mapWith(Number),
+        expected: sql<number>`sum(
+          ${stealOdds.packAlpha}::float8 / ${stealOdds.packTotalAlpha}
+        )`.mapWith(Number),
+        variance: sql<number>`sum(
+          (${stealOdds.packAlpha}::float8 / ${stealOdds.packTotalAlpha})
+          * (1 - ${stealOdds.packAlpha}::float8 / ${stealOdds.packTotalAlpha})
+        )`.mapWith(Number),
+      })
+      .from(stealOdds)
+      // Owners with no wolves on record (e.g. staked before our start block) can't be split
+      .where(and(eq(stealOdds.chainId, chainId), sql`${stealOdds.winnerTotalAlpha} > 0`))
+      .groupBy(stealOdds.alpha)
+      .orderBy(asc(stealOdds.alpha)),
+  ]);
+
+  const gen1Mints = gen1.mints;
+  return c.json({
+    sheepEaten: {
+      ...compare(unstakes.samples, unstakes.eaten, unstakes.expected, unstakes.variance),
+      observedInterval95: wilson(unstakes.eaten, unstakes.samples),
+    },
+    mintIntercepts: {
+      ...compare(
+        gen1Mints,
+        intercepts.count,
+        gen1Mints * MINT_INTERCEPT_CHANCE,
+        gen1Mints * MINT_INTERCEPT_CHANCE * (1 - MINT_INTERCEPT_CHANCE)
+      ),
+      observedInterval95: wilson(intercepts.count, gen1Mints),
+    },
+    alphaTiers: tiers.map((tier) => ({
+      alpha: tier.alpha,
+      ...compare(tier.samples, tier.observed, tier.expected, tier.variance),
+    })),
+  });
+}
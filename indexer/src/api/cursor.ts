@@ -0,0 +1,23 @@
+// Where a page ended: the sort value of its last row, plus a unique id to break ties
+export interface Cursor {
+  value: string;
+  id: string;
+}
+
+/**
+ * Cursors are opaque to clients: base64url of "<value>:<id>" for the last row returned
+ */
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(`${cursor.value}:${cursor.id}`).toString("base64url");
+}
+
+/**
+ * Inverse of encodeCursor. Null when the input doesn't decode to a value and an id;
+ * routes still check the value against their sort column.
+ */
+export function decodeCursor(cursor: string): Cursor | null {
+  const decoded = Buffer.from(cursor, "base64url").toString();
+  const separator = decoded.indexOf(":");
+  if (separator < 1) return null;
+  return { value: decoded.slice(0, separator), id: decoded.slice(separator + 1) };
+}
@@ -0,0 +1,265 @@
+import { createHmac } from "node:crypto";
+import pg from "pg";
+import { db, publicClients } from "ponder:api";
+import { notificationOutbox } from "ponder:schema";
+import { and, asc, eq, gte, lte } from "ponder";
+import { selectedDeployments } from "../../deployments.js";
+
+// Web app URL for notifications (use ngrok URL in dev)
+const WEB_APP_URL = process.env.WEB_APP_URL || "http://localhost:3001";
+// Shared with the web app, which rejects /api/notify-steal calls it can't verify
+const SIGNING_SECRET = process.env.NOTIFY_SIGNING_SECRET;
+
+// Postgres schema for delivery state. Kept out of Ponder's schema, which is
+// rebuilt on resync, so a resync never re-sends delivered notifications.
+const DELIVERY_SCHEMA = process.env.NOTIFY_DATABASE_SCHEMA ?? "wolfgame_notify";
+
+// Blocks an event must be buried under before we notify (reorg safety)
+const CONFIRMATIONS = BigInt(process.env.NOTIFY_CONFIRMATIONS ?? 3);
+// Events older than this are never sent (skips history during a backfill or resync)
+const MAX_AGE_SECONDS = BigInt(process.env.NOTIFY_MAX_AGE_SECONDS ?? 3600);
+// Delivery attempts before a notification is dropped, and the retry backoff bounds
+const MAX_ATTEMPTS = Number(process.env.NOTIFY_MAX_ATTEMPTS ?? 8);
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 10 * 60_000;
+// How long a claimed delivery is held before another dispatcher may retry it
+// (covers a process dying mid-request)
+const CLAIM_TIMEOUT_MS = 2 * 60_000;
+// Deliveries sent per poll
+const DELIVERY_BATCH_SIZE = 50;
+
+const POLL_INTERVAL_MS = 5_000;
+
+type DeliveryStatus = "pending" | "sent" | "rejected" | "failed";
+
+interface DeliveryRow {
+  chain_id: number;
+  id: string;
+  recipient: string;
+  token_id: number;
+  steal_type: "unstake" | "mint";
+  attempts: number;
+}
+
+/**
+ * Create the delivery table if it doesn't exist yet.
+ * One row per outbox row, keyed the same way, so each steal is queued once.
+ */
+async function migrate(pool: pg.Pool) {
+  await pool.query(`CREATE SCHEMA IF NOT EXISTS "${DELIVERY_SCHEMA}"`);
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS "${DELIVERY_SCHEMA}".notification_deliveries (
+      chain_id INTEGER NOT NULL,
+      id TEXT NOT NULL,
+      recipient TEXT NOT NULL,
+      token_id INTEGER NOT NULL,
+      steal_type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (chain_id, id)
+    )
+  `);
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS notification_deliveries_due_idx
+      ON "${DELIVERY_SCHEMA}".notification_deliveries (next_attempt_at)
+      WHERE status = 'pending'
+  `);
+}
+
+/**
+ * Queue newly confirmed, recent-enough outbox rows for one chain. Rows
+ * already queued (by this or an earlier process) are left alone. Rows from
+ * blocks that get reorged out are deleted by Ponder before they reach the
+ * confirmation depth, so they are never queued.
+ */
+async function queueConfirmed(pool: pg.Pool, chainName: string, chainId: number) {
+  const head = await publicClients[chainName].getBlockNumber();
+  const confirmedBlock = head - CONFIRMATIONS;
+
+  const minTimestamp = BigInt(Math.floor(Date.now() / 1000)) - MAX_AGE_SECONDS;
+  const rows = await db
+    .select()
+    .from(notificationOutbox)
+    .where(
+      and(
+        eq(notificationOutbox.chainId, chainId),
+        lte(notificationOutbox.blockNumber, confirmedBlock),
+        gte(notificationOutbox.timestamp, minTimestamp)
+      )
+    )
+    .orderBy(asc(notificationOutbox.blockNumber), asc(notificationOutbox.id));
+
+  if (rows.length === 0) return;
+
+  await pool.query(
+    `INSERT INTO "${DELIVERY_SCHEMA}".notification_deliveries (chain_id, id, recipient, token_id, steal_type)
+     SELECT $1, * FROM unnest($2::text[], $3::text[], $4::integer[], $5::text[])
+     ON CONFLICT (chain_id, id) DO NOTHING`,
+    [
+      chainId,
+      rows.map((row) => row.id),
+      rows.map((row) => row.recipient),
+      rows.map((row) => row.tokenId),
+      rows.map((row) => row.stealType),
+    ]
+  );
+}
+
+/**
+ * Claim due deliveries. Claiming pushes next_attempt_at past CLAIM_TIMEOUT_MS,
+ * so another dispatcher (or a duplicate started by a dev reload) skips them.
+ */
+async function claimDue(pool: pg.Pool): Promise<DeliveryRow[]> {
+  const result = await pool.query<DeliveryRow>(
+    `UPDATE "${DELIVERY_SCHEMA}".notification_deliveries
+     SET attempts = attempts + 1,
+         next_attempt_at = NOW() + make_interval(secs => $1),
+         updated_at = NOW()
+     WHERE (chain_id, id) IN (
+       SELECT chain_id, id FROM "${DELIVERY_SCHEMA}".notification_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING chain_id, id, recipient, token_id, steal_type, attempts`,
+    [CLAIM_TIMEOUT_MS / 1000, DELIVERY_BATCH_SIZE]
+  );
+  return result.rows;
+}
+
+async function settle(pool: pg.Pool, delivery: DeliveryRow, status: DeliveryStatus, retryInMs = 0) {
+  await pool.query(
+    `UPDATE "${DELIVERY_SCHEMA}".notification_deliveries
+     SET status = $3, next_attempt_at = NOW() + make_interval(secs => $4), updated_at = NOW()
+     WHERE chain_id = $1 AND id = $2`,
+    [delivery.chain_id, delivery.id, status, retryInMs / 1000]
+  );
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>", hex encoded. Signed fresh on every
+ * attempt so retries stay inside the web app's replay window.
+ */
+function sign(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * POST one notification to the web app and record the outcome
+ */
+async function deliver(pool: pg.Pool, delivery: DeliveryRow, secret: string) {
+  try {
+    const body = JSON.stringify({
+      notificationId: `wolf-steal-${delivery.id}`,
+      chainId: delivery.chain_id,
+      stealId: delivery.id,
+      wolfOwnerWallet: delivery.recipient,
+      stolenTokenId: delivery.token_id,
+      eventType: delivery.steal_type,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(`${WEB_APP_URL}/api/notify-steal`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Wolfgame-Timestamp": String(timestamp),
+        "X-Wolfgame-Signature": sign(secret, timestamp, body),
+      },
+      body,
+    });
+
+    if (response.ok) {
+      console.log(`[Notify] Sent ${delivery.steal_type} steal notification for token #${delivery.token_id}`);
+      return settle(pool, delivery, "sent");
+    }
+    // 4xx means the request itself is bad; retrying won't help
+    if (response.status < 500) {
+      console.error(`[Notify] Rejected notification ${delivery.id}:`, await response.text());
+      return settle(pool, delivery, "rejected");
+    }
+    console.error(`[Notify] Failed to send notification ${delivery.id}:`, await response.text());
+  } catch (error) {
+    console.error(`[Notify] Error sending notification ${delivery.id}:`, error);
+  }
+
+  if (delivery.attempts >= MAX_ATTEMPTS) {
+    console.error(`[Notify] Giving up on notification ${delivery.id} after ${delivery.attempts} attempts`);
+    return settle(pool, delivery, "failed");
+  }
+  await settle(
+    pool,
+    delivery,
+    "pending",
+    Math.min(RETRY_BASE_MS * 2 ** (delivery.attempts - 1), RETRY_MAX_MS)
+  );
+}
+
+async function dispatch(pool: pg.Pool, secret: string) {
+  for (const [chainName, deployment] of selectedDeployments()) {
+    await queueConfirmed(pool, chainName, deployment.chainId);
+  }
+
+  for (const delivery of await claimDue(pool)) {
+    await deliver(pool, delivery, secret);
+  }
+}
+
+// The running dispatcher, kept on globalThis so a `ponder dev` reload of this
+// module replaces it instead of starting a second one
+const globalForDispatcher = globalThis as typeof globalThis & {
+  wolfgameNotifyDispatcher?: { timer: NodeJS.Timeout; pool: pg.Pool };
+};
+
+/**
+ * Start delivering queued notifications. Runs alongside the API server.
+ *
+ * Delivery state lives in Postgres (DATABASE_URL), so restarts and resyncs
+ * don't re-send, and concurrent dispatchers never send the same row at once.
+ * A process that dies mid-request leaves its claim to expire and be retried
+ * with the same notificationId, which Farcaster clients deduplicate.
+ */
+export function startNotificationDispatcher() {
+  const previous = globalForDispatcher.wolfgameNotifyDispatcher;
+  if (previous) {
+    clearInterval(previous.timer);
+    previous.pool.end().catch(() => {});
+    globalForDispatcher.wolfgameNotifyDispatcher = undefined;
+  }
+
+  const secret = SIGNING_SECRET;
+  if (!secret) {
+    console.warn("[Notify] NOTIFY_SIGNING_SECRET is not set; steal notifications are disabled");
+    return;
+  }
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.warn("[Notify] DATABASE_URL is not set; steal notifications are disabled");
+    return;
+  }
+
+  const pool = new pg.Pool({ connectionString, max: 2 });
+
+  let migrated = false;
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      if (!migrated) {
+        await migrate(pool);
+        migrated = true;
+      }
+      await dispatch(pool, secret);
+    } catch (error) {
+      console.error("[Notify] Dispatcher error:", error);
+    } finally {
+      running = false;
+    }
+  }, POLL_INTERVAL_MS);
+
+  globalForDispatcher.wolfgameNotifyDispatcher = { timer, pool };
+}
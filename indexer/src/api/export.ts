@@ -0,0 +1,229 @@
+import type { Context } from "hono";
+import { db } from "ponder:api";
+import {
+  steals,
+  stealOdds,
+  sheepClaims,
+  wolfClaims,
+  stakes,
+  mints,
+  mintRequests,
+  unstakeRequests,
+  tokenTransfers,
+  parameterChanges,
+  barnSnapshots,
+  dailyStats,
+  woolSupply,
+  woolBalances,
+  wolfStats,
+  tokens,
+  tokenTraits,
+  players,
+  stakedTokens,
+  woolControllers,
+} from "ponder:schema";
+import { and, asc, eq, gt, gte, lte, sql, type AnyPgColumn, type PgTable } from "ponder";
+import { serializeData, type ApiEnv } from "./query.js";
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 1_000;
+
+// A table that can be exported, read in (block, key) order
+interface ExportSource {
+  table: PgTable;
+  chainId: AnyPgColumn;
+  block: AnyPgColumn | null; // Filtered by ?fromBlock=&toBlock=; null for current-state tables
+  key: AnyPgColumn;          // Unique within a block (or the table), so paging has no gaps
+}
+
+const sources: Record<string, ExportSource> = {
+  steals: { table: steals, chainId: steals.chainId, block: steals.blockNumber, key: steals.id },
+  steal_odds: {
+    table: stealOdds,
+    chainId: stealOdds.chainId,
+    block: stealOdds.blockNumber,
+    key: stealOdds.id,
+  },
+  sheep_claims: {
+    table: sheepClaims,
+    chainId: sheepClaims.chainId,
+    block: sheepClaims.blockNumber,
+    key: sheepClaims.id,
+  },
+  wolf_claims: {
+    table: wolfClaims,
+    chainId: wolfClaims.chainId,
+    block: wolfClaims.blockNumber,
+    key: wolfClaims.id,
+  },
+  stakes: { table: stakes, chainId: stakes.chainId, block: stakes.blockNumber, key: stakes.id },
+  mints: { table: mints, chainId: mints.chainId, block: mints.blockNumber, key: mints.id },
+  mint_requests: {
+    table: mintRequests,
+    chainId: mintRequests.chainId,
+    block: mintRequests.blockNumber,
+    key: mintRequests.requestId,
+  },
+  unstake_requests: {
+    table: unstakeRequests,
+    chainId: unstakeRequests.chainId,
+    block: unstakeRequests.blockNumber,
+    key: unstakeRequests.requestId,
+  },
+  token_transfers: {
+    table: tokenTransfers,
+    chainId: tokenTransfers.chainId,
+    block: tokenTransfers.blockNumber,
+    key: tokenTransfers.id,
+  },
+  parameter_changes: {
+    table: parameterChanges,
+    chainId: parameterChanges.chainId,
+    block: parameterChanges.blockNumber,
+    key: parameterChanges.id,
+  },
+  barn_snapshots: {
+    table: barnSnapshots,
+    chainId: barnSnapshots.chainId,
+    block: barnSnapshots.blockNumber,
+    key: barnSnapshots.blockNumber,
+  },
+  players: { table: players, chainId: players.chainId, block: players.firstSeenBlock, key: players.address },
+  // Rollups and current state, exported whole in key order
+  daily_stats: { table: dailyStats, chainId: dailyStats.chainId, block: null, key: dailyStats.day },
+  wool_supply: { table: woolSupply, chainId: woolSupply.chainId, block: null, key: woolSupply.day },
+  wool_balances: {
+    table: woolBalances,
+    chainId: woolBalances.chainId,
+    block: null,
+    key: woolBalances.address,
+  },
+  wolf_stats: { table: wolfStats, chainId: wolfStats.chainId, block: null, key: wolfStats.tokenId },
+  tokens: { table: tokens, chainId: tokens.chainId, block: null, key: tokens.tokenId },
+  token_traits: { table: tokenTraits, chainId: tokenTraits.chainId, block: null, key: tokenTraits.tokenId },
+  staked_tokens: {
+    table: stakedTokens,
+    chainId: stakedTokens.chainId,
+    block: null,
+    key: stakedTokens.tokenId,
+  },
+  wool_controllers: {
+    table: woolControllers,
+    chainId: woolControllers.chainId,
+    block: null,
+    key: woolControllers.address,
+  },
+};
+
+const FORMATS = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ndjson: { contentType: "application/x-ndjson", extension: "ndjson" },
+};
+
+/**
+ * One CSV field. Arrays (e.g. mint_requests.tokenIds) are written as JSON.
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * GET /export/:table - stream a whole table for one chain as CSV or NDJSON,
+ * oldest block first (rollup and current-state tables in key order).
+ *
+ * ?format=csv|ndjson (default csv), ?fromBlock=&toBlock= (inclusive, event
+ * tables and players only) and ?gzip=true to download a .gz file. Bigints
+ * are written as decimal strings, same as the JSON routes. A CSV export with
+ * no rows is empty (no header).
+ */
+export function exportTable(c: Context<ApiEnv>) {
+  const name = c.req.param("table") ?? "";
+  if (!Object.hasOwn(sources, name)) {
+    return c.json({ error: `table must be one of ${Object.keys(sources).join(", ")}` }, 404);
+  }
+  const source = sources[name];
+
+  const format = c.req.query("format") ?? "csv";
+  if (format !== "csv" && format !== "ndjson") {
+    return c.json({ error: "format must be csv or ndjson" }, 400);
+  }
+
+  const fromBlock = c.req.query("fromBlock");
+  const toBlock = c.req.query("toBlock");
+  const isBlock = (value: string | undefined) => value === undefined || /^\d+$/.test(value);
+  if (!isBlock(fromBlock) || !isBlock(toBlock)) {
+    return c.json({ error: "Invalid block range" }, 400);
+  }
+  const block = source.block;
+  if (block === null && (fromBlock !== undefined || toBlock !== undefined)) {
+    return c.json({ error: `${name} has no block column to filter by` }, 400);
+  }
+
+  const gzip = c.req.query("gzip") === "true";
+  const chainId = c.get("chainId");
+
+  let after: { block: unknown; key: unknown } | null = null;
+  let columns: string[] | null = null;
+
+  // Pull one batch per read, so a slow client only holds one batch in memory
+  const rows = new ReadableStream<string>({
+    async pull(controller) {
+      const batch = block
+        ? await db
+            .select({ block, key: source.key, row: source.table })
+            .from(source.table)
+            .where(
+              and(
+                eq(source.chainId, chainId),
+                fromBlock !== undefined ? gte(block, BigInt(fromBlock)) : undefined,
+                toBlock !== undefined ? lte(block, BigInt(toBlock)) : undefined,
+                after ? sql`(${block}, ${source.key}) > (${after.block}, ${after.key})` : undefined
+              )
+            )
+            .orderBy(asc(block), asc(source.key))
+            .limit(EXPORT_BATCH_SIZE)
+        : await db
+            .select({ block: sql<null>`null`, key: source.key, row: source.table })
+            .from(source.table)
+            .where(and(eq(source.chainId, chainId), after ? gt(source.key, after.key) : undefined))
+            .orderBy(asc(source.key))
+            .limit(EXPORT_BATCH_SIZE);
+
+      const serialized = serializeData(batch.map(({ row }) => row as Record<string, unknown>));
+      let chunk = "";
+      for (const row of serialized) {
+        if (format === "ndjson") {
+          chunk += JSON.stringify(row) + "\n";
+          continue;
+        }
+        if (columns === null) {
+          columns = Object.keys(row);
+          chunk += columns.map(csvField).join(",") + "\n";
+        }
+        chunk += columns.map((column) => csvField(row[column])).join(",") + "\n";
+      }
+      if (chunk !== "") controller.enqueue(chunk);
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        controller.close();
+      } else {
+        const last = batch[batch.length - 1];
+        after = { block: last.block, key: last.key };
+      }
+    },
+  });
+
+  const encoded = rows.pipeThrough(new TextEncoderStream());
+  const body = gzip ? encoded.pipeThrough(new CompressionStream("gzip")) : encoded;
+
+  const { contentType, extension } = FORMATS[format];
+  const filename = `${name}-${chainId}.${extension}${gzip ? ".gz" : ""}`;
+  return new Response(body, {
+    headers: {
+      "Content-Type": gzip ? "application/gzip" : contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,210 @@
+import type { Context } from "hono";
+import { db } from "ponder:api";
+import {
+  mints,
+  mintRequests,
+  steals,
+  stakes,
+  sheepClaims,
+  wolfClaims,
+  tokens,
+  tokenTransfers,
+  unstakeRequests,
+} from "ponder:schema";
+import { and, eq, inArray, or, sql } from "ponder";
+import { sortHistory, type HistoryEntry } from "./lifecycle.js";
+import { serializeData, type ApiEnv } from "./query.js";
+
+// Event row ids are "<txHash>-<logIndex>" (mints add "-<i>")
+function logIndexOf(id: string): number {
+  return Number(id.split("-")[1]);
+}
+
+/**
+ * GET /tokens/:id/history - everything that happened to a token, oldest first.
+ *
+ * Sheep are linked to their unstake request through the settling tx (the
+ * request event doesn't list token ids), so a still-pending unstake shows up
+ * once VRF settles it. Transfers already explained by another step are left out.
+ */
+export async function tokenHistory(c: Context<ApiEnv>) {
+  const tokenId = Number(c.req.param("id"));
+  if (!Number.isInteger(tokenId)) {
+    return c.json({ error: "Invalid token ID" }, 400);
+  }
+  const chainId = c.get("chainId");
+
+  const [
+    [token],
+    minted,
+    requests,
+    stolen,
+    staked,
+    sheep,
+    wolves,
+    transfers,
+  ] = await Promise.all([
+    db.select().from(tokens).where(and(eq(tokens.chainId, chainId), eq(tokens.tokenId, tokenId))),
+    db.select().from(mints).where(and(eq(mints.chainId, chainId), eq(mints.tokenId, tokenId))),
+    db
+      .select()
+      .from(mintRequests)
+      .where(and(eq(mintRequests.chainId, chainId), sql`${tokenId} = any(${mintRequests.tokenIds})`)),
+    db.select().from(steals).where(and(eq(steals.chainId, chainId), eq(steals.sheepTokenId, tokenId))),
+    db.select().from(stakes).where(and(eq(stakes.chainId, chainId), eq(stakes.tokenId, tokenId))),
+    db
+      .select()
+      .from(sheepClaims)
+      .where(and(eq(sheepClaims.chainId, chainId), eq(sheepClaims.tokenId, tokenId))),
+    db
+      .select()
+      .from(wolfClaims)
+      .where(and(eq(wolfClaims.chainId, chainId), eq(wolfClaims.tokenId, tokenId))),
+    db
+      .select()
+      .from(tokenTransfers)
+      .where(and(eq(tokenTransfers.chainId, chainId), eq(tokenTransfers.tokenId, tokenId))),
+  ]);
+
+  if (!token && minted.length === 0 && transfers.length === 0) {
+    return c.json({ error: "Token not found" }, 404);
+  }
+
+  // Sheep settle in the fulfillment (or rescue) tx, wolves leave in the request tx
+  const sheepUnstakeTxs = sheep.filter((claim) => claim.unstaked).map((claim) => claim.txHash);
+  const wolfUnstakeTxs = wolves.filter((claim) => claim.unstaked).map((claim) => claim.txHash);
+  const unstakes =
+    sheepUnstakeTxs.length + wolfUnstakeTxs.length > 0
+      ? await db
+          .select()
+          .from(unstakeRequests)
+          .where(
+            and(
+              eq(unstakeRequests.chainId, chainId),
+              or(
+                sheepUnstakeTxs.length > 0
+                  ? inArray(unstakeRequests.settledTxHash, sheepUnstakeTxs)
+                  : undefined,
+                wolfUnstakeTxs.length > 0 ? inArray(unstakeRequests.txHash, wolfUnstakeTxs) : undefined
+              )
+            )
+          )
+      : [];
+
+  const history: HistoryEntry[] = [];
+
+  for (const request of requests) {
+    history.push({
+      type: "mint_requested",
+      txHash: request.txHash,
+      blockNumber: request.blockNumber,
+      logIndex: null,
+      timestamp: request.timestamp,
+      requestId: request.requestId,
+      minter: request.minter,
+    });
+  }
+  for (const mint of minted) {
+    history.push({
+      type: "minted",
+      txHash: mint.txHash,
+      blockNumber: mint.blockNumber,
+      logIndex: logIndexOf(mint.id),
+      timestamp: mint.timestamp,
+      minter: mint.owner,
+      isSheep: mint.isSheep,
+      requestId: mint.requestId,
+    });
+  }
+  for (const steal of stolen) {
+    history.push({
+      type: steal.stealType === "mint" ? "intercepted" : "stolen",
+      txHash: steal.txHash,
+      blockNumber: steal.blockNumber,
+      logIndex: logIndexOf(steal.id),
+      timestamp: steal.timestamp,
+      from: steal.previousOwner,
+      to: steal.wolfOwner,
+    });
+  }
+  for (const stake of staked) {
+    history.push({
+      type: "staked",
+      txHash: stake.txHash,
+      blockNumber: stake.blockNumber,
+      logIndex: logIndexOf(stake.id),
+      timestamp: stake.timestamp,
+      owner: stake.owner,
+    });
+  }
+  for (const claim of sheep) {
+    history.push({
+      type: claim.unstaked ? "unstaked" : "claimed",
+      txHash: claim.txHash,
+      blockNumber: claim.blockNumber,
+      logIndex: logIndexOf(claim.id),
+      timestamp: claim.timestamp,
+      owner: claim.owner,
+      woolEarned: claim.woolEarned,
+      wasEaten: claim.wasEaten,
+    });
+  }
+  for (const claim of wolves) {
+    history.push({
+      type: claim.unstaked ? "unstaked" : "claimed",
+      txHash: claim.txHash,
+      blockNumber: claim.blockNumber,
+      logIndex: logIndexOf(claim.id),
+      timestamp: claim.timestamp,
+      owner: claim.owner,
+      woolEarned: claim.woolEarned,
+      alpha: claim.alpha,
+    });
+  }
+  for (const request of unstakes) {
+    history.push({
+      type: "unstake_requested",
+      txHash: request.txHash,
+      blockNumber: request.blockNumber,
+      logIndex: null,
+      timestamp: request.timestamp,
+      requestId: request.requestId,
+      owner: request.owner,
+    });
+    if (request.settledTxHash && request.settledBlockNumber && request.settledTimestamp) {
+      history.push({
+        type: request.status === "rescued" ? "rescued" : "vrf_fulfilled",
+        txHash: request.settledTxHash,
+        blockNumber: request.settledBlockNumber,
+        logIndex: null,
+        timestamp: request.settledTimestamp,
+        requestId: request.requestId,
+        latencyBlocks: request.latencyBlocks,
+        latencySeconds: request.latencySeconds,
+      });
+    }
+  }
+
+  // Only keep transfers that no other step accounts for
+  const explained = new Set(history.map((entry) => entry.txHash));
+  for (const transfer of transfers) {
+    if (explained.has(transfer.txHash)) continue;
+    history.push({
+      type: "transfer",
+      txHash: transfer.txHash,
+      blockNumber: transfer.blockNumber,
+      logIndex: transfer.logIndex,
+      timestamp: transfer.timestamp,
+      from: transfer.from,
+      to: transfer.to,
+    });
+  }
+
+  sortHistory(history);
+
+  return c.json({
+    tokenId,
+    token: token ? serializeData([token])[0] : null,
+    history: serializeData(history),
+  });
+}
@@ -1,63 +1,826 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { db } from "ponder:api";
-import { steals, sheepClaims, stakes, mints } from "ponder:schema";
-import { desc } from "ponder";
+import schema, {
+  steals,
+  sheepClaims,
+  stakes,
+  mints,
+  tokens,
+  wolfClaims,
+  wolfStats,
+  unstakeRequests,
+  mintRequests,
+  parameterChanges,
+  stakedTokens,
+  woolBalances,
+  woolSupply,
+  woolControllers,
+  dailyStats,
+  barnSnapshots,
+} from "ponder:schema";
+import { and, asc, count, desc, eq, graphql, gt, gte, lte, sql, sum, unionAll } from "ponder";
+import { isAddress } from "viem";
+import {
+  afterCursor,
+  chainParam,
+  listFilters,
+  page,
+  parseListParams,
+  parsePageParams,
+  serializeData,
+  type ApiEnv,
+  type ListColumns,
+} from "./query.js";
+import { activityStream } from "./stream.js";
+import { tokenHistory } from "./history.js";
+import { fairnessAudit } from "./audit.js";
+import { exportTable } from "./export.js";
+import { startNotificationDispatcher } from "./dispatcher.js";
 
-const app = new Hono();
+const app = new Hono<ApiEnv>();
 
-// Helper to convert BigInt to string for JSON serialization
-function serializeData<T>(data: T[]): T[] {
-  return JSON.parse(JSON.stringify(data, (_, v) =>
-    typeof v === "bigint" ? v.toString() : v
-  ));
+// GraphQL over every table and relation in ponder.schema.ts (filter by chainId in queries)
+app.use("/graphql", graphql({ db, schema }));
+
+// Every route reads one deployment, chosen with ?chainId=
+app.use("*", chainParam);
+
+// Deliver queued steal notifications (see notification_outbox)
+startNotificationDispatcher();
+
+// Barn parameter values at deployment (before any *Changed event)
+const BARN_PARAMETER_DEFAULTS = {
+  dailyWoolRate: 10000n * 10n ** 18n, // 10,000 WOOL per day
+  minimumToExit: 2n * 24n * 60n * 60n, // 2 days
+  woolClaimTaxPercentage: 20n,
+  sheepStealChance: 50n,
+  rescueEnabled: 0n,
+};
+
+// Leaderboard time windows (seconds), null = all time
+const LEADERBOARD_WINDOWS: Record<string, bigint | null> = {
+  "24h": 24n * 60n * 60n,
+  "7d": 7n * 24n * 60n * 60n,
+  all: null,
+};
+
+// Parse ?window=24h|7d|all and ?limit= for leaderboard routes
+function leaderboardParams(c: Context) {
+  const window = c.req.query("window") ?? "all";
+  const limit = Number(c.req.query("limit") ?? 25);
+  if (!(window in LEADERBOARD_WINDOWS) || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+    return null;
+  }
+  const duration = LEADERBOARD_WINDOWS[window];
+  const since = duration === null ? null : BigInt(Math.floor(Date.now() / 1000)) - duration;
+  return { since, limit };
 }
 
-// Get all steals
+// Add 1-based ranks to already-ordered leaderboard rows
+function ranked<T>(rows: T[]) {
+  return serializeData(rows.map((row, i) => ({ rank: i + 1, ...row })));
+}
+
+// Barn.MAXIMUM_GLOBAL_WOOL - sheep stop earning once this much has been earned
+const MAXIMUM_GLOBAL_WOOL = 2_400_000_000n * 10n ** 18n;
+
+// Number of recent events per list in the player portfolio (totals cover everything)
+const PLAYER_RECENT_LIMIT = 50;
+
+// Filterable columns for the paginated event lists
+const stealColumns: ListColumns = {
+  chainId: steals.chainId,
+  id: steals.id,
+  timestamp: steals.timestamp,
+  blockNumber: steals.blockNumber,
+  tokenId: steals.sheepTokenId,
+  addresses: [steals.wolfOwner, steals.previousOwner],
+};
+const sheepClaimColumns: ListColumns = {
+  chainId: sheepClaims.chainId,
+  id: sheepClaims.id,
+  timestamp: sheepClaims.timestamp,
+  blockNumber: sheepClaims.blockNumber,
+  tokenId: sheepClaims.tokenId,
+  addresses: [sheepClaims.owner],
+};
+const stakeColumns: ListColumns = {
+  chainId: stakes.chainId,
+  id: stakes.id,
+  timestamp: stakes.timestamp,
+  blockNumber: stakes.blockNumber,
+  tokenId: stakes.tokenId,
+  addresses: [stakes.owner],
+};
+const mintColumns: ListColumns = {
+  chainId: mints.chainId,
+  id: mints.id,
+  timestamp: mints.timestamp,
+  blockNumber: mints.blockNumber,
+  tokenId: mints.tokenId,
+  addresses: [mints.owner],
+};
+const mintRequestColumns: ListColumns = {
+  chainId: mintRequests.chainId,
+  id: mintRequests.requestId,
+  timestamp: mintRequests.timestamp,
+  blockNumber: mintRequests.blockNumber,
+  tokenId: null, // Matched against tokenIds by the route
+  addresses: [mintRequests.minter],
+};
+
+const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Get steals (paginated; ?address= matches thief or victim)
 app.get("/steals", async (c) => {
-  const data = await db.select().from(steals).orderBy(desc(steals.timestamp));
-  return c.json(serializeData(data));
+  const params = parseListParams(c);
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+  const data = await db
+    .select()
+    .from(steals)
+    .where(listFilters(params, stealColumns))
+    .orderBy(desc(steals.timestamp), desc(steals.id))
+    .limit(params.limit + 1);
+  return c.json(page(data, params.limit));
 });
 
-// Get steals for a specific wolf owner
+// Get steals for a specific wolf owner (paginated)
 app.get("/steals/:wolfOwner", async (c) => {
   const wolfOwner = c.req.param("wolfOwner");
-  const data = await db.select().from(steals).orderBy(desc(steals.timestamp));
-  const filtered = data.filter(s => s.wolfOwner.toLowerCase() === wolfOwner.toLowerCase());
-  return c.json(serializeData(filtered));
+  const params = parseListParams(c);
+  if (!isAddress(wolfOwner)) {
+    return c.json({ error: "Invalid address" }, 400);
+  }
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+  const data = await db
+    .select()
+    .from(steals)
+    .where(and(eq(steals.wolfOwner, wolfOwner), listFilters(params, stealColumns)))
+    .orderBy(desc(steals.timestamp), desc(steals.id))
+    .limit(params.limit + 1);
+  return c.json(page(data, params.limit));
 });
 
-// Get sheep claims
+// Get sheep claims (paginated)
 app.get("/sheep-claims", async (c) => {
-  const data = await db.select().from(sheepClaims).orderBy(desc(sheepClaims.timestamp));
-  return c.json(serializeData(data));
+  const params = parseListParams(c);
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+  const data = await db
+    .select()
+    .from(sheepClaims)
+    .where(listFilters(params, sheepClaimColumns))
+    .orderBy(desc(sheepClaims.timestamp), desc(sheepClaims.id))
+    .limit(params.limit + 1);
+  return c.json(page(data, params.limit));
 });
 
-// Get all stakes
+// Get stakes (paginated)
 app.get("/stakes", async (c) => {
-  const data = await db.select().from(stakes).orderBy(desc(stakes.timestamp));
-  return c.json(serializeData(data));
+  const params = parseListParams(c);
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+  const data = await db
+    .select()
+    .from(stakes)
+    .where(listFilters(params, stakeColumns))
+    .orderBy(desc(stakes.timestamp), desc(stakes.id))
+    .limit(params.limit + 1);
+  return c.json(page(data, params.limit));
 });
 
-// Get all mints
+// Get mints (paginated)
 app.get("/mints", async (c) => {
-  const data = await db.select().from(mints).orderBy(desc(mints.timestamp));
+  const params = parseListParams(c);
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+  const data = await db
+    .select()
+    .from(mints)
+    .where(listFilters(params, mintColumns))
+    .orderBy(desc(mints.timestamp), desc(mints.id))
+    .limit(params.limit + 1);
+  return c.json(page(data, params.limit));
+});
+
+// Get every token currently owned by an address (wallet and Barn escrow)
+app.get("/owners/:address/tokens", async (c) => {
+  const owner = c.req.param("address");
+  if (!isAddress(owner)) {
+    return c.json({ error: "Invalid address" }, 400);
+  }
+  const data = await db
+    .select()
+    .from(tokens)
+    .where(and(eq(tokens.chainId, c.get("chainId")), eq(tokens.owner, owner)))
+    .orderBy(asc(tokens.tokenId));
   return c.json(serializeData(data));
 });
 
-// Get recent activity (last 100 events across all tables)
+// Get everything an address holds: wallet and escrowed tokens with stake data, plus pending requests
+app.get("/owners/:address/inventory", async (c) => {
+  const owner = c.req.param("address");
+  if (!isAddress(owner)) {
+    return c.json({ error: "Invalid address" }, 400);
+  }
+  const chainId = c.get("chainId");
+
+  const [held, pendingUnstakes, pendingMints] = await Promise.all([
+    db
+      .select({
+        tokenId: tokens.tokenId,
+        isSheep: tokens.isSheep,
+        alphaIndex: tokens.alphaIndex,
+        isStaked: tokens.isStaked,
+        isEscrowed: tokens.isEscrowed,
+        stakedAt: stakedTokens.stakedAt,
+        stakeValue: stakedTokens.stakeValue,
+      })
+      .from(tokens)
+      .leftJoin(
+        stakedTokens,
+        and(eq(stakedTokens.chainId, tokens.chainId), eq(stakedTokens.tokenId, tokens.tokenId))
+      )
+      .where(and(eq(tokens.chainId, chainId), eq(tokens.owner, owner)))
+      .orderBy(asc(tokens.tokenId)),
+    db
+      .select()
+      .from(unstakeRequests)
+      .where(
+        and(
+          eq(unstakeRequests.chainId, chainId),
+          eq(unstakeRequests.owner, owner),
+          eq(unstakeRequests.status, "pending")
+        )
+      )
+      .orderBy(asc(unstakeRequests.timestamp)),
+    db
+      .select()
+      .from(mintRequests)
+      .where(
+        and(
+          eq(mintRequests.chainId, chainId),
+          eq(mintRequests.minter, owner),
+          eq(mintRequests.status, "pending")
+        )
+      )
+      .orderBy(asc(mintRequests.timestamp)),
+  ]);
+
+  return c.json({
+    tokens: serializeData(held),
+    pendingUnstakes: serializeData(pendingUnstakes),
+    pendingMints: serializeData(pendingMints),
+  });
+});
+
+// Get the full lifecycle of a token (mint, stakes, claims, unstakes, steals, transfers)
+app.get("/tokens/:id/history", tokenHistory);
+
+// Get lifetime stats for all wolves, most tax first, optionally for a single owner (paginated)
+app.get("/wolves", async (c) => {
+  const owner = c.req.query("owner");
+  if (owner !== undefined && !isAddress(owner)) {
+    return c.json({ error: "Invalid address" }, 400);
+  }
+  const params = parsePageParams(c, ({ value, id }) => /^\d+$/.test(value) && /^\d+$/.test(id));
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+  const data = await db
+    .select()
+    .from(wolfStats)
+    .where(
+      and(
+        eq(wolfStats.chainId, c.get("chainId")),
+        owner ? eq(wolfStats.owner, owner) : undefined,
+        afterCursor(params.cursor, wolfStats.lifetimeTax, wolfStats.tokenId)
+      )
+    )
+    .orderBy(desc(wolfStats.lifetimeTax), desc(wolfStats.tokenId))
+    .limit(params.limit + 1);
+  return c.json(
+    page(data, params.limit, (wolf) => ({ value: String(wolf.lifetimeTax), id: String(wolf.tokenId) }))
+  );
+});
+
+// Get lifetime stats and claim history for a single wolf
+app.get("/wolves/:tokenId", async (c) => {
+  const tokenId = Number(c.req.param("tokenId"));
+  if (!Number.isInteger(tokenId)) {
+    return c.json({ error: "Invalid token ID" }, 400);
+  }
+  const chainId = c.get("chainId");
+  const [stats] = await db
+    .select()
+    .from(wolfStats)
+    .where(and(eq(wolfStats.chainId, chainId), eq(wolfStats.tokenId, tokenId)));
+  if (!stats) {
+    return c.json({ error: "Wolf not found" }, 404);
+  }
+  const claims = await db
+    .select()
+    .from(wolfClaims)
+    .where(and(eq(wolfClaims.chainId, chainId), eq(wolfClaims.tokenId, tokenId)))
+    .orderBy(desc(wolfClaims.timestamp));
+  return c.json({
+    ...serializeData([stats])[0],
+    claims: serializeData(claims),
+  });
+});
+
+// Get an unstake request with its outcomes (poll until status leaves "pending")
+app.get("/unstake-requests/:requestId", async (c) => {
+  const param = c.req.param("requestId");
+  if (!/^\d+$/.test(param)) {
+    return c.json({ error: "Invalid request ID" }, 400);
+  }
+  const requestId = BigInt(param);
+  const chainId = c.get("chainId");
+
+  const [request] = await db
+    .select()
+    .from(unstakeRequests)
+    .where(and(eq(unstakeRequests.chainId, chainId), eq(unstakeRequests.requestId, requestId)));
+  if (!request) {
+    return c.json({ error: "Unstake request not found" }, 404);
+  }
+
+  // Wolves are paid out in the request tx; sheep outcomes land in the settling tx
+  const settledTxHash = request.settledTxHash;
+  const [wolves, sheep, stolen] = await Promise.all([
+    db
+      .select()
+      .from(wolfClaims)
+      .where(
+        and(
+          eq(wolfClaims.chainId, chainId),
+          eq(wolfClaims.txHash, request.txHash),
+          eq(wolfClaims.unstaked, true)
+        )
+      ),
+    settledTxHash
+      ? db
+          .select()
+          .from(sheepClaims)
+          .where(and(eq(sheepClaims.chainId, chainId), eq(sheepClaims.txHash, settledTxHash)))
+      : Promise.resolve([]),
+    settledTxHash
+      ? db
+          .select()
+          .from(steals)
+          .where(and(eq(steals.chainId, chainId), eq(steals.txHash, settledTxHash)))
+      : Promise.resolve([]),
+  ]);
+
+  return c.json({
+    ...serializeData([request])[0],
+    wolfClaims: serializeData(wolves),
+    sheepClaims: serializeData(sheep),
+    steals: serializeData(stolen),
+  });
+});
+
+// Get mint requests (pending and completed), optionally for a single minter (paginated;
+// ?tokenId= matches any token the request minted)
+app.get("/mint-requests", async (c) => {
+  const minter = c.req.query("minter");
+  if (minter !== undefined && !isAddress(minter)) {
+    return c.json({ error: "Invalid address" }, 400);
+  }
+  const params = parseListParams(c, ({ value, id }) => /^\d+$/.test(value) && /^\d+$/.test(id));
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+  const data = await db
+    .select()
+    .from(mintRequests)
+    .where(
+      and(
+        listFilters(params, mintRequestColumns),
+        minter ? eq(mintRequests.minter, minter) : undefined,
+        params.tokenId !== null ? sql`${params.tokenId} = any(${mintRequests.tokenIds})` : undefined
+      )
+    )
+    .orderBy(desc(mintRequests.timestamp), desc(mintRequests.requestId))
+    .limit(params.limit + 1);
+  return c.json(
+    page(data, params.limit, (request) => ({
+      value: String(request.timestamp),
+      id: String(request.requestId),
+    }))
+  );
+});
+
+// Get current Barn parameters plus full change history.
+// Pass ?at=<unix timestamp> to get the values that were in force at that time.
+app.get("/params", async (c) => {
+  const at = c.req.query("at");
+  if (at !== undefined && !/^\d+$/.test(at)) {
+    return c.json({ error: "Invalid timestamp" }, 400);
+  }
+
+  const history = await db
+    .select()
+    .from(parameterChanges)
+    .where(
+      and(
+        eq(parameterChanges.chainId, c.get("chainId")),
+        at ? lte(parameterChanges.timestamp, BigInt(at)) : undefined
+      )
+    )
+    .orderBy(asc(parameterChanges.blockNumber), asc(parameterChanges.logIndex));
+
+  const current: Record<
+    string,
+    { value: bigint; effectiveBlock: bigint | null; effectiveTimestamp: bigint | null }
+  > = {};
+  for (const [parameter, value] of Object.entries(BARN_PARAMETER_DEFAULTS)) {
+    current[parameter] = { value, effectiveBlock: null, effectiveTimestamp: null };
+  }
+  for (const change of history) {
+    current[change.parameter] = {
+      value: change.newValue,
+      effectiveBlock: change.blockNumber,
+      effectiveTimestamp: change.timestamp,
+    };
+  }
+
+  return c.json({
+    current: serializeData([current])[0],
+    history: serializeData(history),
+  });
+});
+
+// Leaderboard: wolf owners with the most steals (unstakes and mint intercepts)
+app.get("/leaderboards/steals", async (c) => {
+  const params = leaderboardParams(c);
+  if (!params) {
+    return c.json({ error: "Invalid window or limit" }, 400);
+  }
+  const stealCount = count();
+  const data = await db
+    .select({ address: steals.wolfOwner, steals: stealCount })
+    .from(steals)
+    .where(
+      and(
+        eq(steals.chainId, c.get("chainId")),
+        params.since !== null ? gte(steals.timestamp, params.since) : undefined
+      )
+    )
+    .groupBy(steals.wolfOwner)
+    .orderBy(desc(stealCount))
+    .limit(params.limit);
+  return c.json(ranked(data));
+});
+
+// Leaderboard: wolf owners with the most intercepted mints
+app.get("/leaderboards/intercepts", async (c) => {
+  const params = leaderboardParams(c);
+  if (!params) {
+    return c.json({ error: "Invalid window or limit" }, 400);
+  }
+  const interceptCount = count();
+  const data = await db
+    .select({ address: steals.wolfOwner, intercepts: interceptCount })
+    .from(steals)
+    .where(
+      and(
+        eq(steals.chainId, c.get("chainId")),
+        eq(steals.stealType, "mint"),
+        params.since !== null ? gte(steals.timestamp, params.since) : undefined
+      )
+    )
+    .groupBy(steals.wolfOwner)
+    .orderBy(desc(interceptCount))
+    .limit(params.limit);
+  return c.json(ranked(data));
+});
+
+// Leaderboard: players with the most WOOL claimed (sheep earnings and wolf tax)
+app.get("/leaderboards/wool", async (c) => {
+  const params = leaderboardParams(c);
+  if (!params) {
+    return c.json({ error: "Invalid window or limit" }, 400);
+  }
+  const chainId = c.get("chainId");
+  const claims = unionAll(
+    db
+      .select({ owner: sheepClaims.owner, woolEarned: sheepClaims.woolEarned })
+      .from(sheepClaims)
+      .where(
+        and(
+          eq(sheepClaims.chainId, chainId),
+          params.since !== null ? gte(sheepClaims.timestamp, params.since) : undefined
+        )
+      ),
+    db
+      .select({ owner: wolfClaims.owner, woolEarned: wolfClaims.woolEarned })
+      .from(wolfClaims)
+      .where(
+        and(
+          eq(wolfClaims.chainId, chainId),
+          params.since !== null ? gte(wolfClaims.timestamp, params.since) : undefined
+        )
+      )
+  ).as("claims");
+  const woolClaimed = sum(claims.woolEarned);
+  const data = await db
+    .select({ address: claims.owner, woolClaimed })
+    .from(claims)
+    .groupBy(claims.owner)
+    .orderBy(desc(woolClaimed))
+    .limit(params.limit);
+  return c.json(ranked(data));
+});
+
+// Leaderboard: luckiest sheep owners by unstake survival rate.
+// ?minAttempts= (default 5) keeps one lucky unstake from topping the board.
+app.get("/leaderboards/survival", async (c) => {
+  const params = leaderboardParams(c);
+  const minAttempts = Number(c.req.query("minAttempts") ?? 5);
+  if (!params || !Number.isInteger(minAttempts) || minAttempts < 1) {
+    return c.json({ error: "Invalid window, limit or minAttempts" }, 400);
+  }
+  const attempts = count();
+  const survived = sql<number>`count(*) filter (where not ${sheepClaims.wasEaten})`.mapWith(Number);
+  const survivalRate = sql<number>`${survived}::float8 / count(*)`.mapWith(Number);
+  const data = await db
+    .select({ address: sheepClaims.owner, attempts, survived, survivalRate })
+    .from(sheepClaims)
+    .where(
+      and(
+        eq(sheepClaims.chainId, c.get("chainId")),
+        eq(sheepClaims.unstaked, true),
+        params.since !== null ? gte(sheepClaims.timestamp, params.since) : undefined
+      )
+    )
+    .groupBy(sheepClaims.owner)
+    .having(sql`count(*) >= ${minAttempts}`)
+    .orderBy(desc(survivalRate), desc(attempts))
+    .limit(params.limit);
+  return c.json(ranked(data));
+});
+
+// Get everything an address has done: recent events per type, lifetime totals
+// and currently staked tokens
+app.get("/players/:address", async (c) => {
+  const address = c.req.param("address");
+  if (!isAddress(address)) {
+    return c.json({ error: "Invalid address" }, 400);
+  }
+  const chainId = c.get("chainId");
+  const ownMints = and(eq(mints.chainId, chainId), eq(mints.owner, address));
+  const ownStakes = and(eq(stakes.chainId, chainId), eq(stakes.owner, address));
+  const ownSheepClaims = and(eq(sheepClaims.chainId, chainId), eq(sheepClaims.owner, address));
+  const ownWolfClaims = and(eq(wolfClaims.chainId, chainId), eq(wolfClaims.owner, address));
+  const ownStaked = and(eq(stakedTokens.chainId, chainId), eq(stakedTokens.owner, address));
+  const thefts = and(eq(steals.chainId, chainId), eq(steals.wolfOwner, address));
+  const losses = and(eq(steals.chainId, chainId), eq(steals.previousOwner, address));
+
+  const [
+    recentMints,
+    recentStakes,
+    recentSheepClaims,
+    recentWolfClaims,
+    recentThefts,
+    recentLosses,
+    staked,
+    [mintTotals],
+    [stakeTotals],
+    [sheepTotals],
+    [wolfTotals],
+    [theftTotals],
+    [lossTotals],
+  ] = await Promise.all([
+    db.select().from(mints).where(ownMints)
+      .orderBy(desc(mints.timestamp)).limit(PLAYER_RECENT_LIMIT),
+    db.select().from(stakes).where(ownStakes)
+      .orderBy(desc(stakes.timestamp)).limit(PLAYER_RECENT_LIMIT),
+    db.select().from(sheepClaims).where(ownSheepClaims)
+      .orderBy(desc(sheepClaims.timestamp)).limit(PLAYER_RECENT_LIMIT),
+    db.select().from(wolfClaims).where(ownWolfClaims)
+      .orderBy(desc(wolfClaims.timestamp)).limit(PLAYER_RECENT_LIMIT),
+    db.select().from(steals).where(thefts)
+      .orderBy(desc(steals.timestamp)).limit(PLAYER_RECENT_LIMIT),
+    db.select().from(steals).where(losses)
+      .orderBy(desc(steals.timestamp)).limit(PLAYER_RECENT_LIMIT),
+    db.select().from(stakedTokens).where(ownStaked)
+      .orderBy(asc(stakedTokens.tokenId)),
+    db.select({ count: count() }).from(mints).where(ownMints),
+    db.select({ count: count() }).from(stakes).where(ownStakes),
+    db
+      .select({
+        count: count(),
+        eaten: sql<number>`count(*) filter (where ${sheepClaims.wasEaten})`.mapWith(Number),
+        woolClaimed: sum(sheepClaims.woolEarned),
+        // Recorded per claim by the indexer, so rescues count as untaxed
+        taxPaid: sum(sheepClaims.taxPaid),
+      })
+      .from(sheepClaims)
+      .where(ownSheepClaims),
+    db
+      .select({ count: count(), woolClaimed: sum(wolfClaims.woolEarned) })
+      .from(wolfClaims)
+      .where(ownWolfClaims),
+    db
+      .select({
+        count: count(),
+        intercepts: sql<number>`count(*) filter (where ${steals.stealType} = 'mint')`.mapWith(Number),
+      })
+      .from(steals)
+      .where(thefts),
+    db.select({ count: count() }).from(steals).where(losses),
+  ]);
+
+  const woolClaimed = BigInt(sheepTotals.woolClaimed ?? 0) + BigInt(wolfTotals.woolClaimed ?? 0);
+
+  return c.json({
+    address: address.toLowerCase(),
+    totals: serializeData([{
+      mints: mintTotals.count,
+      stakes: stakeTotals.count,
+      sheepClaims: sheepTotals.count,
+      sheepEaten: sheepTotals.eaten,
+      wolfClaims: wolfTotals.count,
+      stealsAsThief: theftTotals.count,
+      mintIntercepts: theftTotals.intercepts,
+      stealsAsVictim: lossTotals.count,
+      woolClaimed,
+      taxPaid: BigInt(sheepTotals.taxPaid ?? 0),
+    }])[0],
+    stakedTokens: serializeData(staked),
+    mints: serializeData(recentMints),
+    stakes: serializeData(recentStakes),
+    sheepClaims: serializeData(recentSheepClaims),
+    wolfClaims: serializeData(recentWolfClaims),
+    steals: {
+      asThief: serializeData(recentThefts),
+      asVictim: serializeData(recentLosses),
+    },
+  });
+});
+
+// Get WOOL supply: circulating, total minted/burned, emissions vs the Barn cap,
+// top holders (?holders=, default 10) and the daily supply series
+app.get("/wool", async (c) => {
+  const holderLimit = Number(c.req.query("holders") ?? 10);
+  if (!Number.isInteger(holderLimit) || holderLimit < 1 || holderLimit > 100) {
+    return c.json({ error: "Invalid holders" }, 400);
+  }
+
+  const chainId = c.get("chainId");
+  const holding = and(eq(woolBalances.chainId, chainId), gt(woolBalances.balance, 0n));
+  const [daily, topHolders, controllers, [holders]] = await Promise.all([
+    db.select().from(woolSupply).where(eq(woolSupply.chainId, chainId)).orderBy(asc(woolSupply.day)),
+    db
+      .select()
+      .from(woolBalances)
+      .where(holding)
+      .orderBy(desc(woolBalances.balance))
+      .limit(holderLimit),
+    db
+      .select()
+      .from(woolControllers)
+      .where(and(eq(woolControllers.chainId, chainId), eq(woolControllers.allowed, true))),
+    db.select({ count: count() }).from(woolBalances).where(holding),
+  ]);
+
+  const latest = daily[daily.length - 1];
+  const totalMinted = latest?.totalMinted ?? 0n;
+  const totalBurned = latest?.totalBurned ?? 0n;
+
+  return c.json({
+    ...serializeData([{
+      circulatingSupply: totalMinted - totalBurned,
+      totalMinted,
+      totalBurned,
+      maximumGlobalWool: MAXIMUM_GLOBAL_WOOL,
+      emissionsRemaining: MAXIMUM_GLOBAL_WOOL > totalMinted ? MAXIMUM_GLOBAL_WOOL - totalMinted : 0n,
+    }])[0],
+    holderCount: holders.count,
+    topHolders: serializeData(topHolders),
+    controllers: serializeData(controllers),
+    daily: serializeData(daily),
+  });
+});
+
+// Get the daily economy series, oldest first (UTC days, ?from=&to= as YYYY-MM-DD,
+// inclusive; paginated). Days without any activity have no row.
+app.get("/stats/daily", async (c) => {
+  const from = c.req.query("from");
+  const to = c.req.query("to");
+  if ((from !== undefined && !isDay(from)) || (to !== undefined && !isDay(to))) {
+    return c.json({ error: "from and to must be YYYY-MM-DD" }, 400);
+  }
+  const params = parsePageParams(c, ({ value }) => isDay(value));
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+
+  const data = await db
+    .select()
+    .from(dailyStats)
+    .where(
+      and(
+        eq(dailyStats.chainId, c.get("chainId")),
+        from !== undefined ? gte(dailyStats.day, from) : undefined,
+        to !== undefined ? lte(dailyStats.day, to) : undefined,
+        params.cursor ? gt(dailyStats.day, params.cursor.value) : undefined
+      )
+    )
+    .orderBy(asc(dailyStats.day))
+    .limit(params.limit + 1);
+  return c.json(page(data, params.limit, (day) => ({ value: day.day, id: "" })));
+});
+
+// Get periodic Barn/Woolf state samples, oldest first (?fromBlock=&toBlock=; paginated)
+app.get("/snapshots", async (c) => {
+  const fromBlock = c.req.query("fromBlock");
+  const toBlock = c.req.query("toBlock");
+  const isBlock = (value: string | undefined) => value === undefined || /^\d+$/.test(value);
+  if (!isBlock(fromBlock) || !isBlock(toBlock)) {
+    return c.json({ error: "Invalid block range" }, 400);
+  }
+  const params = parsePageParams(c);
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
+
+  const data = await db
+    .select()
+    .from(barnSnapshots)
+    .where(
+      and(
+        eq(barnSnapshots.chainId, c.get("chainId")),
+        fromBlock !== undefined ? gte(barnSnapshots.blockNumber, BigInt(fromBlock)) : undefined,
+        toBlock !== undefined ? lte(barnSnapshots.blockNumber, BigInt(toBlock)) : undefined,
+        params.cursor ? gt(barnSnapshots.blockNumber, BigInt(params.cursor.value)) : undefined
+      )
+    )
+    .orderBy(asc(barnSnapshots.blockNumber))
+    .limit(params.limit + 1);
+  return c.json(
+    page(data, params.limit, (snapshot) => ({ value: String(snapshot.blockNumber), id: "" }))
+  );
+});
+
+// Compare observed steal/intercept outcomes against the configured odds
+app.get("/audit/fairness", fairnessAudit);
+
+// Download a whole table as CSV or NDJSON (?format=, ?fromBlock=&toBlock=, ?gzip=true)
+app.get("/export/:table", exportTable);
+
+// Stream newly indexed activity as server-sent events (?address=, ?fromBlock=)
+app.get("/stream", activityStream);
+
+// Get recent activity across steals, sheep claims, stakes and mints, newest first.
+// One page holds the newest ?limit= events of all four kinds together, grouped by kind;
+// takes the same filters as the event lists.
 app.get("/activity", async (c) => {
+  const params = parseListParams(c);
+  if ("error" in params) {
+    return c.json(params, 400);
+  }
   const [recentSteals, recentClaims, recentStakes, recentMints] = await Promise.all([
-    db.select().from(steals).orderBy(desc(steals.timestamp)).limit(25),
-    db.select().from(sheepClaims).orderBy(desc(sheepClaims.timestamp)).limit(25),
-    db.select().from(stakes).orderBy(desc(stakes.timestamp)).limit(25),
-    db.select().from(mints).orderBy(desc(mints.timestamp)).limit(25),
+    db.select().from(steals).where(listFilters(params, stealColumns))
+      .orderBy(desc(steals.timestamp), desc(steals.id)).limit(params.limit + 1),
+    db.select().from(sheepClaims).where(listFilters(params, sheepClaimColumns))
+      .orderBy(desc(sheepClaims.timestamp), desc(sheepClaims.id)).limit(params.limit + 1),
+    db.select().from(stakes).where(listFilters(params, stakeColumns))
+      .orderBy(desc(stakes.timestamp), desc(stakes.id)).limit(params.limit + 1),
+    db.select().from(mints).where(listFilters(params, mintColumns))
+      .orderBy(desc(mints.timestamp), desc(mints.id)).limit(params.limit + 1),
   ]);
 
+  // Merge in the same (timestamp, id) order the cursor filters by
+  const events = [
+    ...recentSteals.map((row) => ({ kind: "steals" as const, timestamp: row.timestamp, id: row.id, row })),
+    ...recentClaims.map((row) => ({ kind: "claims" as const, timestamp: row.timestamp, id: row.id, row })),
+    ...recentStakes.map((row) => ({ kind: "stakes" as const, timestamp: row.timestamp, id: row.id, row })),
+    ...recentMints.map((row) => ({ kind: "mints" as const, timestamp: row.timestamp, id: row.id, row })),
+  ].sort((a, b) =>
+    a.timestamp !== b.timestamp
+      ? (a.timestamp < b.timestamp ? 1 : -1)
+      : (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+  );
+  const { items, nextCursor } = page(events, params.limit);
+  const rowsOf = (kind: (typeof items)[number]["kind"]) =>
+    items.filter((event) => event.kind === kind).map((event) => event.row);
+
   return c.json({
-    steals: serializeData(recentSteals),
-    claims: serializeData(recentClaims),
-    stakes: serializeData(recentStakes),
-    mints: serializeData(recentMints),
+    steals: rowsOf("steals"),
+    claims: rowsOf("claims"),
+    stakes: rowsOf("stakes"),
+    mints: rowsOf("mints"),
+    nextCursor,
   });
 });
 
@@ -0,0 +1,63 @@
+// One step in a token's life, linked to the transaction it happened in
+export interface HistoryEntry {
+  type:
+    | "mint_requested"
+    | "minted"
+    | "intercepted"
+    | "staked"
+    | "claimed"
+    | "unstake_requested"
+    | "vrf_fulfilled"
+    | "rescued"
+    | "unstaked"
+    | "stolen"
+    | "transfer";
+  txHash: `0x${string}`;
+  blockNumber: bigint;
+  logIndex: number | null;  // Null for request-level steps (placed by LIFECYCLE within their block)
+  timestamp: bigint;
+  [detail: string]: unknown;
+}
+
+// Order of steps in a token's life. Request-level steps have no log index, so
+// this places them among the other steps of their block.
+const LIFECYCLE: Record<HistoryEntry["type"], number> = {
+  mint_requested: 0,
+  minted: 1,
+  intercepted: 1,
+  transfer: 2,
+  staked: 3,
+  claimed: 4,
+  unstake_requested: 5,
+  vrf_fulfilled: 6,
+  rescued: 6,
+  unstaked: 7,
+  stolen: 8,
+};
+
+/**
+ * Sort history steps oldest first, in place. Within a block, steps go by log
+ * index. A request-level step goes just before the first step it led to: one
+ * in its own tx, or a later lifecycle step in the same block. Otherwise it's last.
+ */
+export function sortHistory(history: HistoryEntry[]): HistoryEntry[] {
+  const position = new Map(
+    history.map((entry) => {
+      if (entry.logIndex !== null) return [entry, entry.logIndex];
+      const next = history
+        .filter(
+          (other) =>
+            other.logIndex !== null &&
+            other.blockNumber === entry.blockNumber &&
+            (other.txHash === entry.txHash || LIFECYCLE[other.type] > LIFECYCLE[entry.type])
+        )
+        .map((other) => other.logIndex as number);
+      return [entry, next.length > 0 ? Math.min(...next) - 0.5 : Number.MAX_SAFE_INTEGER];
+    })
+  );
+
+  return history.sort((a, b) => {
+    if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+    return position.get(a)! - position.get(b)! || LIFECYCLE[a.type] - LIFECYCLE[b.type];
+  });
+}
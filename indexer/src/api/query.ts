@@ -0,0 +1,185 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { and, eq, gt, gte, lt, lte, or, type AnyPgColumn } from "ponder";
+import { isAddress } from "viem";
+import { selectedDeployments } from "../../deployments.js";
+import { decodeCursor, encodeCursor, type Cursor } from "./cursor.js";
+
+// Chains this indexer was started with; the first is the default for ?chainId=
+const CHAIN_IDS = selectedDeployments().map(([, deployment]) => deployment.chainId);
+
+// Hono env for API routes: the chain resolved by chainParam
+export type ApiEnv = { Variables: { chainId: number } };
+
+// Page size for list routes when ?limit= is not given, and the most we allow
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// Parsed ?limit=&cursor=
+export interface PageParams {
+  limit: number;
+  cursor: Cursor | null;
+}
+
+// Parsed list query: ?limit=&cursor=&fromBlock=&toBlock=&address=&tokenId=
+export interface ListParams extends PageParams {
+  chainId: number;
+  fromBlock: bigint | null;
+  toBlock: bigint | null;
+  address: `0x${string}` | null;
+  tokenId: number | null;
+}
+
+// Columns an event table exposes to the list filters
+export interface ListColumns {
+  chainId: AnyPgColumn;
+  id: AnyPgColumn;
+  timestamp: AnyPgColumn;
+  blockNumber: AnyPgColumn;
+  tokenId: AnyPgColumn | null; // null when the route filters ?tokenId= itself
+  addresses: AnyPgColumn[]; // ?address= matches any of these
+}
+
+// Helper to convert BigInt to string for JSON serialization
+export function serializeData<T>(data: T[]): T[] {
+  return JSON.parse(JSON.stringify(data, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  ));
+}
+
+const isInteger = (value: string) => /^\d+$/.test(value);
+
+function parseBlock(value: string | undefined): bigint | null | undefined {
+  if (value === undefined) return null;
+  return /^\d+$/.test(value) ? BigInt(value) : undefined;
+}
+
+/**
+ * Resolve ?chainId= for every route, defaulting to the first selected deployment
+ */
+export const chainParam = createMiddleware<ApiEnv>(async (c, next) => {
+  const chainId = Number(c.req.query("chainId") ?? CHAIN_IDS[0]);
+  if (!CHAIN_IDS.includes(chainId)) {
+    return c.json({ error: `chainId must be one of ${CHAIN_IDS.join(", ")}` }, 400);
+  }
+  c.set("chainId", chainId);
+  await next();
+});
+
+/**
+ * Parse ?limit= and ?cursor= for any paginated route. `isValid` checks a
+ * decoded cursor against the route's sort columns (default: integer value).
+ * Returns an error message for bad input.
+ */
+export function parsePageParams(
+  c: Context<ApiEnv>,
+  isValid: (cursor: Cursor) => boolean = (cursor) => isInteger(cursor.value)
+): PageParams | { error: string } {
+  const limit = Number(c.req.query("limit") ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return { error: `limit must be between 1 and ${MAX_LIMIT}` };
+  }
+
+  const rawCursor = c.req.query("cursor");
+  const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+  if (rawCursor && !(cursor && isValid(cursor))) {
+    return { error: "Invalid cursor" };
+  }
+
+  return { limit, cursor };
+}
+
+/**
+ * Parse the shared list query params. Returns an error message for bad input.
+ */
+export function parseListParams(
+  c: Context<ApiEnv>,
+  isValidCursor?: (cursor: Cursor) => boolean
+): ListParams | { error: string } {
+  const pageParams = parsePageParams(c, isValidCursor);
+  if ("error" in pageParams) {
+    return pageParams;
+  }
+
+  const fromBlock = parseBlock(c.req.query("fromBlock"));
+  const toBlock = parseBlock(c.req.query("toBlock"));
+  if (fromBlock === undefined || toBlock === undefined) {
+    return { error: "Invalid block range" };
+  }
+
+  const address = c.req.query("address") ?? null;
+  if (address !== null && !isAddress(address)) {
+    return { error: "Invalid address" };
+  }
+
+  const rawTokenId = c.req.query("tokenId");
+  const tokenId = rawTokenId === undefined ? null : Number(rawTokenId);
+  if (tokenId !== null && !Number.isInteger(tokenId)) {
+    return { error: "Invalid token ID" };
+  }
+
+  return { chainId: c.get("chainId"), ...pageParams, fromBlock, toBlock, address, tokenId };
+}
+
+/**
+ * Rows strictly after the cursor in a list ordered by (value, id), both
+ * descending (newest first) or both ascending
+ */
+export function afterCursor(
+  cursor: Cursor | null,
+  value: AnyPgColumn,
+  id: AnyPgColumn,
+  order: "asc" | "desc" = "desc"
+) {
+  if (!cursor) return undefined;
+  const past = order === "desc" ? lt : gt;
+  return or(past(value, cursor.value), and(eq(value, cursor.value), past(id, cursor.id)));
+}
+
+/**
+ * Build the WHERE clause for a list query. Rows are ordered newest first
+ * by (timestamp, id), so the cursor selects everything strictly after it.
+ */
+export function listFilters(params: ListParams, columns: ListColumns) {
+  return and(
+    eq(columns.chainId, params.chainId),
+    afterCursor(params.cursor, columns.timestamp, columns.id),
+    params.fromBlock !== null ? gte(columns.blockNumber, params.fromBlock) : undefined,
+    params.toBlock !== null ? lte(columns.blockNumber, params.toBlock) : undefined,
+    params.address !== null
+      ? or(...columns.addresses.map((column) => eq(column, params.address)))
+      : undefined,
+    params.tokenId !== null && columns.tokenId !== null
+      ? eq(columns.tokenId, params.tokenId)
+      : undefined
+  );
+}
+
+/**
+ * Wrap a page of rows (fetched with limit + 1) in the response envelope.
+ * `cursorOf` gives a row's sort position; event rows default to (timestamp, id).
+ */
+export function page<T extends { timestamp: bigint; id: string }>(
+  rows: T[],
+  limit: number
+): { items: T[]; nextCursor: string | null };
+export function page<T>(
+  rows: T[],
+  limit: number,
+  cursorOf: (row: T) => Cursor
+): { items: T[]; nextCursor: string | null };
+export function page<T>(
+  rows: T[],
+  limit: number,
+  cursorOf = (row: T) => {
+    const { timestamp, id } = row as { timestamp: bigint; id: string };
+    return { value: String(timestamp), id };
+  }
+) {
+  const items = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+  return {
+    items: serializeData(items),
+    nextCursor: hasMore ? encodeCursor(cursorOf(items[items.length - 1])) : null,
+  };
+}
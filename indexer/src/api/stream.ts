@@ -0,0 +1,360 @@
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { db } from "ponder:api";
+import {
+  steals,
+  sheepClaims,
+  wolfClaims,
+  stakes,
+  mints,
+  mintRequests,
+  unstakeRequests,
+} from "ponder:schema";
+import { and, asc, eq, gte, lte, max, or, sql, type AnyPgColumn, type PgTable } from "ponder";
+import { isAddress } from "viem";
+import { serializeData, type ApiEnv } from "./query.js";
+
+// How often each chain's feed checks for newly indexed rows, and keeps idle connections open
+const POLL_INTERVAL_MS = 2_000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// Rows read per query, for both the shared feed and a connection's ?fromBlock= replay
+const STREAM_BATCH_SIZE = 500;
+// Blocks behind the newest row the feed re-reads each poll, so rows a reorg
+// writes into a block that was already streamed are still picked up
+const REORG_WINDOW_BLOCKS = 10n;
+// Rows a connection may have waiting to be written before it is dropped as too slow
+const MAX_QUEUED_ROWS = 10_000;
+
+// A table pushed to the stream as SSE events of one type
+interface StreamSource {
+  event: string;
+  table: PgTable;
+  chainId: AnyPgColumn;
+  block: AnyPgColumn;       // Block the row became relevant (insert, or fulfillment for requests)
+  key: AnyPgColumn;         // Unique within a block, so (block, key) pages without gaps
+  addresses: AnyPgColumn[]; // ?address= matches any of these
+}
+
+const sources: StreamSource[] = [
+  {
+    event: "steal",
+    table: steals,
+    chainId: steals.chainId,
+    block: steals.blockNumber,
+    key: steals.id,
+    addresses: [steals.wolfOwner, steals.previousOwner],
+  },
+  {
+    event: "sheep-claim",
+    table: sheepClaims,
+    chainId: sheepClaims.chainId,
+    block: sheepClaims.blockNumber,
+    key: sheepClaims.id,
+    addresses: [sheepClaims.owner],
+  },
+  {
+    event: "wolf-claim",
+    table: wolfClaims,
+    chainId: wolfClaims.chainId,
+    block: wolfClaims.blockNumber,
+    key: wolfClaims.id,
+    addresses: [wolfClaims.owner],
+  },
+  {
+    event: "stake",
+    table: stakes,
+    chainId: stakes.chainId,
+    block: stakes.blockNumber,
+    key: stakes.id,
+    addresses: [stakes.owner],
+  },
+  {
+    event: "mint",
+    table: mints,
+    chainId: mints.chainId,
+    block: mints.blockNumber,
+    key: mints.id,
+    addresses: [mints.owner],
+  },
+  {
+    event: "mint-fulfilled",
+    table: mintRequests,
+    chainId: mintRequests.chainId,
+    block: mintRequests.fulfillBlockNumber,
+    key: mintRequests.requestId,
+    addresses: [mintRequests.minter],
+  },
+  {
+    event: "unstake-settled",
+    table: unstakeRequests,
+    chainId: unstakeRequests.chainId,
+    block: unstakeRequests.settledBlockNumber,
+    key: unstakeRequests.requestId,
+    addresses: [unstakeRequests.owner],
+  },
+];
+
+
+// A row ready to be written as an SSE event
+interface StreamRow {
+  source: number;           // Index into sources
+  block: bigint;
+  key: string;
+  addresses: string[];      // Lowercase values of the source's address columns
+  data: string;             // Serialized row
+}
+
+// Where a page of rows stops, for reading the next one
+type PageCursor = { block: unknown; key: unknown };
+
+/**
+ * One page of a source's rows in (block, key) order: from `fromBlock`, or
+ * strictly after `after`, up to `toBlock`, optionally for one address
+ */
+async function readPage(
+  sourceIndex: number,
+  chainId: number,
+  range: { fromBlock: bigint; toBlock?: bigint; after?: PageCursor | null; address?: string }
+): Promise<{ rows: StreamRow[]; last: PageCursor | null }> {
+  const source = sources[sourceIndex];
+  const batch = await db
+    .select({
+      block: source.block,
+      key: source.key,
+      addresses: sql<string[]>`array[${sql.join(source.addresses, sql`, `)}]`,
+      row: source.table,
+    })
+    .from(source.table)
+    .where(
+      and(
+        eq(source.chainId, chainId),
+        gte(source.block, range.fromBlock),
+        range.toBlock !== undefined ? lte(source.block, range.toBlock) : undefined,
+        range.after ? sql`(${source.block}, ${source.key}) > (${range.after.block}, ${range.after.key})` : undefined,
+        range.address !== undefined
+          ? or(...source.addresses.map((column) => eq(column, range.address)))
+          : undefined
+      )
+    )
+    .orderBy(asc(source.block), asc(source.key))
+    .limit(STREAM_BATCH_SIZE);
+
+  const rows = batch.map(({ block, key, addresses, row }) => ({
+    source: sourceIndex,
+    block: BigInt(block as bigint),
+    key: String(key),
+    addresses: addresses.map((address) => address.toLowerCase()),
+    data: JSON.stringify(serializeData([row])[0]),
+  }));
+  const last = batch[batch.length - 1];
+  return { rows, last: last ? { block: last.block, key: last.key } : null };
+}
+
+/**
+ * Highest block already present for a source (where a new feed starts from)
+ */
+async function latestBlock(source: StreamSource, chainId: number): Promise<bigint> {
+  const [row] = await db
+    .select({ block: max(source.block) })
+    .from(source.table)
+    .where(eq(source.chainId, chainId));
+  return BigInt((row?.block as bigint | string | null) ?? 0);
+}
+
+// Polls one chain's tables for every open connection on that chain
+interface Feed {
+  subscribers: Set<(rows: StreamRow[]) => void>;
+  heads: bigint[];                 // Per source: newest block read
+  recent: Map<string, bigint>[];   // Per source: keys read within REORG_WINDOW_BLOCKS of the head -> block
+  ready: Promise<void>;
+  timer: NodeJS.Timeout | null;
+}
+
+const feeds = new Map<number, Feed>();
+
+/**
+ * Read a source from REORG_WINDOW_BLOCKS behind its head, passing rows not
+ * read before to `emit` a page at a time
+ */
+async function pollSource(feed: Feed, chainId: number, i: number, emit: (rows: StreamRow[]) => void) {
+  const windowStart = feed.heads[i] > REORG_WINDOW_BLOCKS ? feed.heads[i] - REORG_WINDOW_BLOCKS : 0n;
+  const recent = feed.recent[i];
+
+  let after: PageCursor | null = null;
+  do {
+    const page = await readPage(i, chainId, { fromBlock: windowStart, after });
+    const fresh = page.rows.filter((row) => !recent.has(row.key));
+    for (const row of fresh) {
+      recent.set(row.key, row.block);
+      if (row.block > feed.heads[i]) feed.heads[i] = row.block;
+    }
+    if (fresh.length > 0) emit(fresh);
+    after = page.rows.length === STREAM_BATCH_SIZE ? page.last : null;
+  } while (after);
+
+  for (const [key, block] of recent) {
+    if (block < feed.heads[i] - REORG_WINDOW_BLOCKS) recent.delete(key);
+  }
+}
+
+/**
+ * Join a chain's feed, starting it if this is the first connection.
+ * Every source is queried once per poll however many connections are open.
+ */
+function subscribe(chainId: number, subscriber: (rows: StreamRow[]) => void) {
+  let feed = feeds.get(chainId);
+  if (!feed) {
+    const created: Feed = {
+      subscribers: new Set(),
+      heads: [],
+      recent: sources.map(() => new Map()),
+      ready: Promise.resolve(),
+      timer: null,
+    };
+    const broadcast = (rows: StreamRow[]) => {
+      for (const send of created.subscribers) send(rows);
+    };
+
+    created.ready = (async () => {
+      created.heads = await Promise.all(sources.map((source) => latestBlock(source, chainId)));
+      // Rows already in the window count as streamed; only later ones are new
+      for (let i = 0; i < sources.length; i++) {
+        await pollSource(created, chainId, i, () => {});
+      }
+
+      let running = false;
+      created.timer = setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+          for (let i = 0; i < sources.length; i++) {
+            await pollSource(created, chainId, i, broadcast);
+          }
+        } catch (error) {
+          console.error("[Stream] Poll error:", error);
+        } finally {
+          running = false;
+        }
+      }, POLL_INTERVAL_MS);
+    })();
+    // A feed that fails to start is dropped, so the next connection retries
+    created.ready.catch(() => {
+      if (feeds.get(chainId) === created) feeds.delete(chainId);
+    });
+
+    feeds.set(chainId, created);
+    feed = created;
+  }
+
+  const joined = feed;
+  joined.subscribers.add(subscriber);
+  return {
+    feed: joined,
+    unsubscribe() {
+      joined.subscribers.delete(subscriber);
+      if (joined.subscribers.size === 0 && feeds.get(chainId) === joined) {
+        feeds.delete(chainId);
+        joined.ready.then(() => clearInterval(joined.timer ?? undefined), () => {});
+      }
+    },
+  };
+}
+
+/**
+ * GET /stream - server-sent events for newly indexed activity on one chain.
+ *
+ * Connections share one poller per chain, which reads each table in
+ * (block, key) order and re-reads the last REORG_WINDOW_BLOCKS blocks, so rows
+ * a reorg writes into an already-streamed block are still sent. Rows a reorg
+ * removes after being sent are not retracted. Optional ?address= filter, and
+ * ?fromBlock= to replay from a block (paged) before following the head.
+ */
+export function activityStream(c: Context<ApiEnv>) {
+  const chainId = c.get("chainId");
+  const address = c.req.query("address")?.toLowerCase();
+  const fromBlock = c.req.query("fromBlock");
+  if (address !== undefined && !isAddress(address)) {
+    return c.json({ error: "Invalid address" }, 400);
+  }
+  if (fromBlock !== undefined && !/^\d+$/.test(fromBlock)) {
+    return c.json({ error: "Invalid fromBlock" }, 400);
+  }
+
+  return streamSSE(c, async (stream) => {
+    const queue: StreamRow[] = [];
+    let closed = false;
+    let wake: (() => void) | null = null;
+
+    const { feed, unsubscribe } = subscribe(chainId, (rows) => {
+      for (const row of rows) {
+        if (address === undefined || row.addresses.includes(address)) queue.push(row);
+      }
+      if (queue.length > MAX_QUEUED_ROWS) {
+        console.warn(`[Stream] Dropping a connection with ${queue.length} rows waiting`);
+        closed = true;
+      }
+      wake?.();
+    });
+    stream.onAbort(() => {
+      closed = true;
+      wake?.();
+    });
+
+    const write = (row: StreamRow) =>
+      stream.writeSSE({ event: sources[row.source].event, id: String(row.block), data: row.data });
+
+    try {
+      await feed.ready;
+
+      // Replay up to where the feed is now. Anything it has queued so far is
+      // within that range; rows it finds later near the head may overlap the
+      // replay, so those are remembered and skipped.
+      const replayed = new Set<string>();
+      if (fromBlock !== undefined) {
+        const heads = [...feed.heads];
+        queue.length = 0;
+        for (let i = 0; i < sources.length && !closed; i++) {
+          let after: PageCursor | null = null;
+          do {
+            const page = await readPage(i, chainId, {
+              fromBlock: BigInt(fromBlock),
+              toBlock: heads[i],
+              after,
+              address,
+            });
+            for (const row of page.rows) {
+              await write(row);
+              if (row.block >= heads[i] - REORG_WINDOW_BLOCKS) replayed.add(`${i}:${row.key}`);
+            }
+            after = page.rows.length === STREAM_BATCH_SIZE ? page.last : null;
+          } while (after && !closed);
+        }
+      }
+
+      let lastWrite = Date.now();
+      while (!closed) {
+        for (const row of queue.splice(0)) {
+          if (replayed.has(`${row.source}:${row.key}`)) continue;
+          await write(row);
+          lastWrite = Date.now();
+        }
+
+        if (Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+          await stream.writeSSE({ event: "heartbeat", data: "{}" });
+          lastWrite = Date.now();
+        }
+        await new Promise<void>((resolve) => {
+          const timeout = setTimeout(resolve, HEARTBEAT_INTERVAL_MS);
+          wake = () => {
+            clearTimeout(timeout);
+            resolve();
+          };
+        });
+        wake = null;
+      }
+    } finally {
+      unsubscribe();
+    }
+  });
+}
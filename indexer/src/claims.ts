@@ -0,0 +1,35 @@
+// Pure Barn claim rules, kept apart from the handlers so they can be unit tested
+
+type Address = `0x${string}`;
+
+/**
+ * rescuePendingUnstake re-emits WolfClaimed(id, 0, true) for wolves that were
+ * already paid out and left the pack when the unstake was requested. A real
+ * unstake (including a zero-earning Barn.rescue) always finds the wolf staked.
+ */
+export function isRescueReemit(
+  claim: { earned: bigint; unstaked: boolean },
+  staked: boolean
+): boolean {
+  return claim.unstaked && !staked && claim.earned === 0n;
+}
+
+/**
+ * Owner a Barn claim is paid to: the staker on record, or for a token that
+ * already left the pack, the owner the tokens table credits (the staker while
+ * escrowed, the wallet it was returned to after). Null if we never saw the token.
+ */
+export function claimOwnerOf(
+  stakedToken: { owner: Address } | null,
+  token: { owner: Address } | null
+): Address | null {
+  return stakedToken?.owner ?? token?.owner ?? null;
+}
+
+/**
+ * Tax Barn withheld from a claim that paid out `earned` after tax at
+ * `taxPercentage`. Only claimMany and VRF-settled survivors are taxed.
+ */
+export function withheldTax(earned: bigint, taxPercentage: bigint): bigint {
+  return taxPercentage < 100n ? (earned * taxPercentage) / (100n - taxPercentage) : 0n;
+}
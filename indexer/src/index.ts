@@ -1,99 +1,473 @@
-import { ponder } from "ponder:registry";
-import { steals, sheepClaims, stakes, mints, stakedTokens } from "ponder:schema";
-import { eq } from "ponder";
+import { ponder, type Context, type Event } from "ponder:registry";
+import {
+  steals,
+  sheepClaims,
+  stakes,
+  mints,
+  stakedTokens,
+  tokens,
+  players,
+  tokenTransfers,
+  tokenTraits,
+  wolfClaims,
+  wolfStats,
+  notificationOutbox,
+  unstakeRequests,
+  mintRequests,
+  parameterChanges,
+  woolBalances,
+  woolSupply,
+  woolControllers,
+  dailyStats,
+  barnSnapshots,
+  stealOdds,
+  wolfPacks,
+  alphaTiers,
+  gameParameters,
+} from "ponder:schema";
+import { and, desc, eq } from "ponder";
+import { zeroAddress } from "viem";
+import { deployments } from "../deployments.js";
+import { claimOwnerOf, isRescueReemit, withheldTax } from "./claims.js";
 
-// Web app URL for notifications (use ngrok URL in dev)
-const WEB_APP_URL = process.env.WEB_APP_URL || "http://localhost:3001";
+// Contract log events (excludes block interval events, which have no tx or log)
+type LogEvent = Extract<Event, { log: unknown }>;
+
+// Alpha score = MAX_ALPHA - alphaIndex (so indices 0,1,2,3 map to alpha 8,7,6,5)
+const MAX_ALPHA = 8;
+
+// Alpha tiers a staked wolf can be in
+const ALPHA_TIERS = [5, 6, 7, 8];
+
+// Barn.woolClaimTaxPercentage at deployment (before any WoolClaimTaxPercentageChanged)
+const DEFAULT_TAX_PERCENTAGE = 20n;
+
+// Zeroed counters for a day's rollup
+const EMPTY_DAY = {
+  mints: 0,
+  gen0Mints: 0,
+  gen1Mints: 0,
+  stakes: 0,
+  sheepClaims: 0,
+  sheepEaten: 0,
+  mintIntercepts: 0,
+  woolClaimed: 0n,
+  taxPaid: 0n,
+};
+
+/**
+ * Manifest entry for the chain an event came from
+ */
+function deploymentOf(context: Context) {
+  return deployments[context.chain.name as keyof typeof deployments];
+}
 
 /**
- * Send notification to wolf owner when they steal a sheep
+ * Record an address as a player the first time it owns or stakes a token.
+ * The zero address and the game's own contracts (including retired Barns)
+ * only hold tokens for players, so they are skipped.
  */
-async function notifyWolfSteal(
-  wolfOwnerWallet: string,
+async function recordPlayer(context: Context, address: `0x${string}`, blockNumber: bigint) {
+  const deployment = deploymentOf(context);
+  const contracts = [
+    zeroAddress,
+    deployment.contracts.barn,
+    deployment.contracts.woolf,
+    deployment.contracts.wool,
+    ...deployment.retiredBarns,
+  ];
+  if (contracts.some((contract) => contract.toLowerCase() === address.toLowerCase())) return;
+
+  await context.db
+    .insert(players)
+    .values({ chainId: context.chain.id, address, firstSeenBlock: blockNumber })
+    .onConflictDoNothing();
+}
+
+/**
+ * Queue a steal notification for the wolf owner. Delivery happens outside
+ * indexing (src/api/dispatcher.ts), so resyncs and restarts don't re-send.
+ */
+async function queueStealNotification(
+  event: LogEvent,
+  context: Context,
+  wolfOwner: `0x${string}`,
   stolenTokenId: number,
-  eventType: "unstake" | "mint"
+  stealType: "unstake" | "mint"
 ) {
-  try {
-    const response = await fetch(`${WEB_APP_URL}/api/notify-steal`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        wolfOwnerWallet,
-        stolenTokenId,
-        eventType,
-      }),
+  await context.db.insert(notificationOutbox).values({
+    chainId: context.chain.id,
+    id: `${event.transaction.hash}-${event.log.logIndex}`,
+    recipient: wolfOwner,
+    tokenId: stolenTokenId,
+    stealType,
+    txHash: event.transaction.hash,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+  });
+}
+
+/**
+ * Resolve traits for a batch of tokens (in input order).
+ * Traits we haven't stored yet are read from Woolf in a single multicall
+ * and saved to token_traits so later events can reuse them.
+ */
+async function resolveTraits(
+  context: Context,
+  tokenIds: readonly bigint[]
+): Promise<(typeof tokenTraits.$inferSelect)[]> {
+  const { db, client } = context;
+  const chainId = context.chain.id;
+
+  const stored = await Promise.all(
+    tokenIds.map((tokenId) => db.find(tokenTraits, { chainId, tokenId: Number(tokenId) }))
+  );
+  const missing = tokenIds.filter((_, i) => !stored[i]);
+
+  if (missing.length > 0) {
+    const results = await client.multicall({
+      contracts: missing.map((tokenId) => ({
+        abi: context.contracts.Woolf.abi,
+        address: deploymentOf(context).contracts.woolf,
+        functionName: "getTokenTraits" as const,
+        args: [tokenId] as const,
+      })),
+      allowFailure: false,
     });
 
-    if (response.ok) {
-      console.log(`[Notify] Sent ${eventType} steal notification for token #${stolenTokenId}`);
-    } else {
-      console.error(`[Notify] Failed to send notification:`, await response.text());
+    const rows = missing.map((tokenId, i) => ({ chainId, tokenId: Number(tokenId), ...results[i] }));
+    await db.insert(tokenTraits).values(rows).onConflictDoNothing();
+
+    for (const row of rows) {
+      stored[tokenIds.findIndex((tokenId) => Number(tokenId) === row.tokenId)] = row;
     }
-  } catch (error) {
-    console.error(`[Notify] Error sending notification:`, error);
   }
+
+  return stored.map((traits) => traits!);
+}
+
+/**
+ * Owner a Barn claim is paid to (see claimOwnerOf); the tokens row is only
+ * needed once the token has left the pack
+ */
+async function claimOwner(
+  context: Context,
+  tokenId: number,
+  stakedToken: typeof stakedTokens.$inferSelect | null
+): Promise<`0x${string}` | null> {
+  const token = stakedToken
+    ? null
+    : await context.db.find(tokens, { chainId: context.chain.id, tokenId });
+  return claimOwnerOf(stakedToken, token);
+}
+
+/**
+ * Clear the staked flag on a token leaving the Barn (escrow is cleared by its Transfer)
+ */
+async function markUnstaked(context: Context, tokenId: number) {
+  const { db } = context;
+  const key = { chainId: context.chain.id, tokenId };
+  const token = await db.find(tokens, key);
+  if (token) {
+    await db.update(tokens, key).set({ isStaked: false });
+  }
+}
+
+/**
+ * Add a wolf to its staker's pack and its alpha tier (no-op if already there)
+ */
+async function joinPack(context: Context, owner: `0x${string}`, tokenId: number, alpha: number) {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const pack = await db.find(wolfPacks, { chainId, owner });
+  if (pack?.tokenIds.includes(tokenId)) return;
+
+  await db
+    .insert(wolfPacks)
+    .values({ chainId, owner, tokenIds: [tokenId] })
+    .onConflictDoUpdate((row) => ({ tokenIds: [...row.tokenIds, tokenId] }));
+  await db
+    .insert(alphaTiers)
+    .values({ chainId, alpha, wolves: 1 })
+    .onConflictDoUpdate((row) => ({ wolves: row.wolves + 1 }));
+}
+
+/**
+ * Remove a wolf from its staker's pack and its alpha tier (no-op if not there)
+ */
+async function leavePack(context: Context, owner: `0x${string}`, tokenId: number, alpha: number) {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const pack = await db.find(wolfPacks, { chainId, owner });
+  if (!pack?.tokenIds.includes(tokenId)) return;
+
+  await db
+    .update(wolfPacks, { chainId, owner })
+    .set({ tokenIds: pack.tokenIds.filter((id) => id !== tokenId) });
+  await db
+    .update(alphaTiers, { chainId, alpha })
+    .set((row) => ({ wolves: row.wolves - 1 }));
+}
+
+/**
+ * Stats rows of the wolves an owner has staked
+ */
+async function packOf(context: Context, owner: `0x${string}`) {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const pack = await db.find(wolfPacks, { chainId, owner });
+  const wolves = await Promise.all(
+    (pack?.tokenIds ?? []).map((tokenId) => db.find(wolfStats, { chainId, tokenId }))
+  );
+  return wolves.map((wolf) => wolf!);
+}
+
+/**
+ * Credit a steal to the wolf owner's staked wolves.
+ * The contract only reveals the winning owner, not the wolf, so each staked
+ * wolf is credited its alpha share - the same odds randomWolfOwner uses.
+ */
+async function creditWolfSteal(context: Context, wolfOwner: `0x${string}`) {
+  const { db } = context;
+  const wolves = await packOf(context, wolfOwner);
+
+  const totalAlpha = wolves.reduce((sum, wolf) => sum + wolf.alpha, 0);
+  for (const wolf of wolves) {
+    await db
+      .update(wolfStats, { chainId: wolf.chainId, tokenId: wolf.tokenId })
+      .set((row) => ({ stealsCredited: row.stealsCredited + wolf.alpha / totalAlpha }));
+  }
+}
+
+/**
+ * Record each alpha tier's share of the pack at the time of a steal, so the
+ * audit can compare who won against the odds randomWolfOwner should give
+ */
+async function recordStealOdds(
+  event: LogEvent,
+  context: Context,
+  wolfOwner: `0x${string}`,
+  type: "unstake" | "mint"
+) {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const [counts, winners] = await Promise.all([
+    Promise.all(ALPHA_TIERS.map((alpha) => db.find(alphaTiers, { chainId, alpha }))),
+    packOf(context, wolfOwner),
+  ]);
+
+  // Tiers with a wolf in them, as alpha staked by everyone and by the winner
+  const tiers = ALPHA_TIERS.flatMap((alpha, i) => {
+    const wolves = counts[i]?.wolves ?? 0;
+    if (wolves === 0) return [];
+    const winnerWolves = winners.filter((wolf) => wolf.alpha === alpha).length;
+    return [{ alpha, packAlpha: alpha * wolves, winnerAlpha: alpha * winnerWolves }];
+  });
+
+  const packTotalAlpha = tiers.reduce((sum, tier) => sum + tier.packAlpha, 0);
+  const winnerTotalAlpha = tiers.reduce((sum, tier) => sum + tier.winnerAlpha, 0);
+  const stealId = `${event.transaction.hash}-${event.log.logIndex}`;
+  for (const tier of tiers) {
+    await db.insert(stealOdds).values({
+      chainId: context.chain.id,
+      id: `${stealId}-${tier.alpha}`,
+      stealId,
+      stealType: type,
+      alpha: tier.alpha,
+      packAlpha: tier.packAlpha,
+      packTotalAlpha,
+      winnerAlpha: tier.winnerAlpha,
+      winnerTotalAlpha,
+      blockNumber: event.block.number,
+    });
+  }
+}
+
+/**
+ * Record a Barn admin parameter change, and make it the value in force
+ */
+async function recordParameterChange(
+  event: LogEvent,
+  context: Context,
+  parameter: (typeof parameterChanges.$inferInsert)["parameter"],
+  oldValue: bigint | null,
+  newValue: bigint
+) {
+  await context.db.insert(parameterChanges).values({
+    chainId: context.chain.id,
+    id: `${event.transaction.hash}-${event.log.logIndex}`,
+    parameter: parameter,
+    oldValue: oldValue,
+    newValue: newValue,
+    txHash: event.transaction.hash,
+    blockNumber: event.block.number,
+    logIndex: event.log.logIndex,
+    timestamp: event.block.timestamp,
+  });
+
+  await context.db
+    .insert(gameParameters)
+    .values({ chainId: context.chain.id, parameter, value: newValue, blockNumber: event.block.number })
+    .onConflictDoUpdate({ value: newValue, blockNumber: event.block.number });
+}
+
+/**
+ * Format a block timestamp as its UTC day (YYYY-MM-DD)
+ */
+function utcDay(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Add to the daily_stats counters for the UTC day of an event
+ */
+async function rollupDaily(
+  context: Context,
+  timestamp: bigint,
+  delta: Partial<typeof EMPTY_DAY>
+) {
+  const add = { ...EMPTY_DAY, ...delta };
+  await context.db
+    .insert(dailyStats)
+    .values({ chainId: context.chain.id, day: utcDay(timestamp), ...add })
+    .onConflictDoUpdate((row) => ({
+      mints: row.mints + add.mints,
+      gen0Mints: row.gen0Mints + add.gen0Mints,
+      gen1Mints: row.gen1Mints + add.gen1Mints,
+      stakes: row.stakes + add.stakes,
+      sheepClaims: row.sheepClaims + add.sheepClaims,
+      sheepEaten: row.sheepEaten + add.sheepEaten,
+      mintIntercepts: row.mintIntercepts + add.mintIntercepts,
+      woolClaimed: row.woolClaimed + add.woolClaimed,
+      taxPaid: row.taxPaid + add.taxPaid,
+    }));
+}
+
+/**
+ * Barn.woolClaimTaxPercentage currently in force on this chain
+ */
+async function currentTaxPercentage(context: Context): Promise<bigint> {
+  const current = await context.db.find(gameParameters, {
+    chainId: context.chain.id,
+    parameter: "woolClaimTaxPercentage",
+  });
+  return current?.value ?? DEFAULT_TAX_PERCENTAGE;
+}
+
+/**
+ * Add a signed amount to a WOOL holder's balance
+ */
+async function adjustWoolBalance(
+  context: Context,
+  address: `0x${string}`,
+  amount: bigint,
+  blockNumber: bigint
+) {
+  await context.db
+    .insert(woolBalances)
+    .values({ chainId: context.chain.id, address, balance: amount, lastTransferBlock: blockNumber })
+    .onConflictDoUpdate((row) => ({
+      balance: row.balance + amount,
+      lastTransferBlock: blockNumber,
+    }));
 }
 
 // Handle when sheep are claimed (with potential steal)
 ponder.on("Barn:SheepClaimed", async ({ event, context }) => {
   const { db } = context;
+  const chainId = context.chain.id;
   const { tokenId, earned, unstaked, eaten } = event.args;
 
-  // Look up the actual owner from our staked tokens table
-  const stakedToken = await db.find(stakedTokens, { tokenId: Number(tokenId) });
-  const owner = stakedToken?.owner ?? event.transaction.from;
+  // earned is net of tax on claimMany. Unstakes are logged untaxed: the VRF
+  // handler taxes the survivors it settled, while rescues pay no tax.
+  const taxPaid = unstaked ? 0n : withheldTax(earned, await currentTaxPercentage(context));
+
+  // Claims settled by VRF are sent by the relayer, so the owner comes from stake state
+  const stakedToken = await db.find(stakedTokens, { chainId, tokenId: Number(tokenId) });
+  const owner = await claimOwner(context, Number(tokenId), stakedToken);
+  if (!owner) {
+    console.warn(`[Claim] Skipping SheepClaimed for unknown sheep #${tokenId}`);
+    return;
+  }
 
   // Record the sheep claim
   await db.insert(sheepClaims).values({
+    chainId,
     id: `${event.transaction.hash}-${event.log.logIndex}`,
     tokenId: Number(tokenId),
     owner: owner,
     woolEarned: earned,
+    unstaked: unstaked,
     wasEaten: eaten,
+    taxPaid: taxPaid,
+    stakeId: stakedToken?.stakeId ?? null,
     txHash: event.transaction.hash,
     blockNumber: event.block.number,
     timestamp: event.block.timestamp,
   });
 
-  // If unstaked (whether eaten or not), remove from staked tokens
+  // If unstaked (whether eaten or not), remove from staked tokens;
+  // a plain claim restarts the sheep's earning clock
   if (unstaked) {
-    await db.delete(stakedTokens, { tokenId: Number(tokenId) });
+    await db.delete(stakedTokens, { chainId, tokenId: Number(tokenId) });
+    await markUnstaked(context, Number(tokenId));
+  } else if (stakedToken) {
+    await db
+      .update(stakedTokens, { chainId, tokenId: Number(tokenId) })
+      .set({ stakeValue: event.block.timestamp });
   }
+
+  await rollupDaily(context, event.block.timestamp, {
+    sheepClaims: 1,
+    sheepEaten: eaten ? 1 : 0,
+    woolClaimed: earned,
+    taxPaid,
+  });
 });
 
 // Handle sheep stolen during unstaking (new event from Barn contract)
 ponder.on("Barn:SheepStolen", async ({ event, context }) => {
   const { db } = context;
+  const chainId = context.chain.id;
   const { tokenId, from, to } = event.args;
 
   console.log(`[Steal] Sheep #${tokenId} stolen from ${from} to wolf owner ${to}`);
 
   // Record the steal
   await db.insert(steals).values({
+    chainId,
     id: `${event.transaction.hash}-${event.log.logIndex}`,
     sheepTokenId: Number(tokenId),
     wolfOwner: to,
     previousOwner: from,
+    stealType: "unstake",
     txHash: event.transaction.hash,
     blockNumber: event.block.number,
     timestamp: event.block.timestamp,
   });
 
-  // Send notification to the wolf owner
-  await notifyWolfSteal(to, Number(tokenId), "unstake");
+  await recordStealOdds(event, context, to, "unstake");
+  await creditWolfSteal(context, to);
+
+  // Notify the wolf owner
+  await queueStealNotification(event, context, to, Number(tokenId), "unstake");
 });
 
 // Handle when tokens are staked
 ponder.on("Barn:TokenStaked", async ({ event, context }) => {
   const { db } = context;
+  const chainId = context.chain.id;
   const { owner, tokenId } = event.args;
+  const [traits] = await resolveTraits(context, [tokenId]);
+  const stakeId = `${event.transaction.hash}-${event.log.logIndex}`;
 
   // Record the stake event in history
   await db.insert(stakes).values({
-    id: `${event.transaction.hash}-${event.log.logIndex}`,
+    chainId,
+    id: stakeId,
     tokenId: Number(tokenId),
     owner: owner,
-    isSheep: true, // Default to sheep - wolf claims tracked separately
+    isSheep: traits.isSheep,
     txHash: event.transaction.hash,
     blockNumber: event.block.number,
     timestamp: event.block.timestamp,
@@ -103,62 +477,487 @@ ponder.on("Barn:TokenStaked", async ({ event, context }) => {
   await db
     .insert(stakedTokens)
     .values({
+      chainId,
       tokenId: Number(tokenId),
       owner: owner,
-      isSheep: true, // Default to sheep
+      isSheep: traits.isSheep,
       stakedAt: event.block.timestamp,
+      stakeValue: event.args.value,
+      stakeId,
     })
     .onConflictDoUpdate({
       owner: owner,
       stakedAt: event.block.timestamp,
+      stakeValue: event.args.value,
+      stakeId,
     });
+
+  // Mint+stake tokens never reach the staker's wallet, so this is where they first show up
+  await recordPlayer(context, owner, event.block.number);
+
+  // Start the pack clock for wolves
+  if (!traits.isSheep) {
+    await db
+      .insert(wolfStats)
+      .values({
+        chainId,
+        tokenId: Number(tokenId),
+        owner: owner,
+        alpha: MAX_ALPHA - traits.alphaIndex,
+        lifetimeTax: 0n,
+        claimCount: 0,
+        stealsCredited: 0,
+        timeInPack: 0n,
+        stakedAt: event.block.timestamp,
+      })
+      .onConflictDoUpdate({
+        owner: owner,
+        stakedAt: event.block.timestamp,
+      });
+    await joinPack(context, owner, Number(tokenId), MAX_ALPHA - traits.alphaIndex);
+  }
+
+  // Staked tokens sit in Barn escrow but still belong to the staker
+  const token = await db.find(tokens, { chainId, tokenId: Number(tokenId) });
+  if (token) {
+    await db
+      .update(tokens, { chainId, tokenId: Number(tokenId) })
+      .set({ owner: owner, isStaked: true, isEscrowed: true });
+  }
+
+  await rollupDaily(context, event.block.timestamp, { stakes: 1 });
+});
+
+// Handle mint requests waiting on VRF
+ponder.on("Woolf:MintRequested", async ({ event, context }) => {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const { requestId, minter, amount, stake } = event.args;
+
+  await db.insert(mintRequests).values({
+    chainId,
+    requestId: requestId,
+    minter: minter,
+    amount: Number(amount),
+    stake: stake,
+    status: "pending",
+    txHash: event.transaction.hash,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+  });
 });
 
 // Handle mint completions
 ponder.on("Woolf:MintFulfilled", async ({ event, context }) => {
   const { db } = context;
-  const { minter, tokenIds } = event.args;
+  const chainId = context.chain.id;
+  const { requestId, minter, tokenIds } = event.args;
+  const traits = await resolveTraits(context, tokenIds);
 
   // Record each minted token
   for (let i = 0; i < tokenIds.length; i++) {
     const tokenId = tokenIds[i];
 
-    // For now, mark as sheep - we can enhance this later with contract reads
     await db.insert(mints).values({
+      chainId,
       id: `${event.transaction.hash}-${event.log.logIndex}-${i}`,
       tokenId: Number(tokenId),
       owner: minter,
-      isSheep: true, // Default to sheep
+      isSheep: traits[i].isSheep,
+      requestId: requestId,
       txHash: event.transaction.hash,
       blockNumber: event.block.number,
       timestamp: event.block.timestamp,
     });
   }
+
+  // Close out the request, noting which tokens wolves intercepted in this tx
+  const request = await db.find(mintRequests, { chainId, requestId });
+  if (request) {
+    const intercepted = await db.sql
+      .select({ tokenId: steals.sheepTokenId })
+      .from(steals)
+      .where(and(eq(steals.chainId, chainId), eq(steals.txHash, event.transaction.hash)));
+
+    await db.update(mintRequests, { chainId, requestId }).set({
+      status: "fulfilled",
+      fulfillTxHash: event.transaction.hash,
+      fulfillBlockNumber: event.block.number,
+      fulfillTimestamp: event.block.timestamp,
+      latencyBlocks: event.block.number - request.blockNumber,
+      latencySeconds: event.block.timestamp - request.timestamp,
+      tokenIds: tokenIds.map(Number),
+      interceptedTokenIds: intercepted.map((steal) => steal.tokenId),
+    });
+  }
+
+  // Gen 0 tokens are the first PAID_TOKENS (bought with ETH)
+  const paidTokens = await context.client.readContract({
+    abi: context.contracts.Woolf.abi,
+    address: deploymentOf(context).contracts.woolf,
+    functionName: "PAID_TOKENS",
+  });
+  const gen0Mints = tokenIds.filter((tokenId) => tokenId <= paidTokens).length;
+  await rollupDaily(context, event.block.timestamp, {
+    mints: tokenIds.length,
+    gen0Mints,
+    gen1Mints: tokenIds.length - gen0Mints,
+  });
 });
 
 // Handle token steals (when a newly minted token goes to a wolf owner instead of minter)
 ponder.on("Woolf:TokenStolen", async ({ event, context }) => {
   const { db } = context;
+  const chainId = context.chain.id;
   const { tokenId, from, to } = event.args;
 
   // Record the steal
   await db.insert(steals).values({
+    chainId,
     id: `${event.transaction.hash}-${event.log.logIndex}`,
     sheepTokenId: Number(tokenId),
     wolfOwner: to,
     previousOwner: from,
+    stealType: "mint",
     txHash: event.transaction.hash,
     blockNumber: event.block.number,
     timestamp: event.block.timestamp,
   });
 
-  // Send notification to the wolf owner who stole the mint
-  await notifyWolfSteal(to, Number(tokenId), "mint");
+  await recordStealOdds(event, context, to, "mint");
+  await creditWolfSteal(context, to);
+
+  // Notify the wolf owner who stole the mint
+  await queueStealNotification(event, context, to, Number(tokenId), "mint");
+
+  await rollupDaily(context, event.block.timestamp, { mintIntercepts: 1 });
 });
 
-// Handle wolf claims
+// Handle wolf claims (tax collected, with or without unstaking)
 ponder.on("Barn:WolfClaimed", async ({ event, context }) => {
-  // We could track wolf claims too if needed
-  // For now, we're focused on sheep steals
-  console.log(`Wolf ${event.args.tokenId} claimed ${event.args.earned} WOOL`);
+  const { db } = context;
+  const chainId = context.chain.id;
+  const { tokenId, earned, unstaked } = event.args;
+  const stakedToken = await db.find(stakedTokens, { chainId, tokenId: Number(tokenId) });
+
+  // Nothing new to record for a wolf rescuePendingUnstake hands back
+  if (isRescueReemit(event.args, stakedToken !== null)) return;
+
+  const [traits] = await resolveTraits(context, [tokenId]);
+  const alpha = MAX_ALPHA - traits.alphaIndex;
+
+  const owner = await claimOwner(context, Number(tokenId), stakedToken);
+  if (!owner) {
+    console.warn(`[Claim] Skipping WolfClaimed for unknown wolf #${tokenId}`);
+    return;
+  }
+
+  // Record the wolf claim
+  await db.insert(wolfClaims).values({
+    chainId,
+    id: `${event.transaction.hash}-${event.log.logIndex}`,
+    tokenId: Number(tokenId),
+    owner: owner,
+    woolEarned: earned,
+    unstaked: unstaked,
+    alpha: alpha,
+    stakeId: stakedToken?.stakeId ?? null,
+    txHash: event.transaction.hash,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+  });
+
+  // Roll the claim into lifetime stats, closing out pack time on unstake
+  await db
+    .insert(wolfStats)
+    .values({
+      chainId,
+      tokenId: Number(tokenId),
+      owner: owner,
+      alpha: alpha,
+      lifetimeTax: earned,
+      claimCount: 1,
+      stealsCredited: 0,
+      timeInPack: 0n,
+      stakedAt: unstaked ? null : event.block.timestamp,
+    })
+    .onConflictDoUpdate((row) => ({
+      lifetimeTax: row.lifetimeTax + earned,
+      claimCount: row.claimCount + 1,
+      timeInPack:
+        unstaked && row.stakedAt !== null
+          ? row.timeInPack + (event.block.timestamp - row.stakedAt)
+          : row.timeInPack,
+      stakedAt: unstaked ? null : row.stakedAt,
+    }));
+
+  // Unstaking wolves leave the pack immediately, but stay in escrow
+  // until any sheep in the same request are settled by VRF
+  if (unstaked) {
+    await db.delete(stakedTokens, { chainId, tokenId: Number(tokenId) });
+    await markUnstaked(context, Number(tokenId));
+    await leavePack(context, owner, Number(tokenId), alpha);
+  } else if (stakedToken) {
+    // Barn resets the claim point to the current woolPerAlpha, and earned = alpha * (that - old)
+    await db
+      .update(stakedTokens, { chainId, tokenId: Number(tokenId) })
+      .set({ stakeValue: stakedToken.stakeValue + earned / BigInt(alpha) });
+  }
+
+  await rollupDaily(context, event.block.timestamp, { woolClaimed: earned });
+});
+
+// Handle every NFT transfer to keep the tokens table current
+ponder.on("Woolf:Transfer", async ({ event, context }) => {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const { from, to, tokenId } = event.args;
+  const barn = deploymentOf(context).contracts.barn.toLowerCase();
+
+  const intoBarn = to.toLowerCase() === barn;
+  const outOfBarn = from.toLowerCase() === barn;
+
+  await db.insert(tokenTransfers).values({
+    chainId,
+    id: `${event.transaction.hash}-${event.log.logIndex}`,
+    tokenId: Number(tokenId),
+    from,
+    to,
+    txHash: event.transaction.hash,
+    blockNumber: event.block.number,
+    logIndex: event.log.logIndex,
+    timestamp: event.block.timestamp,
+  });
+
+  // Tokens moved into the Barn by their owner stay credited to that owner.
+  // Mint+stake tokens come from the zero address, so TokenStaked fills in the staker.
+  const owner = intoBarn && from !== zeroAddress ? from : to;
+
+  await recordPlayer(context, owner, event.block.number);
+
+  const existing = await db.find(tokens, { chainId, tokenId: Number(tokenId) });
+  if (existing) {
+    await db.update(tokens, { chainId, tokenId: Number(tokenId) }).set({
+      owner: owner,
+      isStaked: outOfBarn ? false : existing.isStaked,
+      isEscrowed: intoBarn,
+      lastTransferBlock: event.block.number,
+    });
+    return;
+  }
+
+  // First time we see this token (mint, or minted before our start block)
+  const [traits] = await resolveTraits(context, [tokenId]);
+
+  await db.insert(tokens).values({
+    chainId,
+    tokenId: Number(tokenId),
+    owner: owner,
+    isSheep: traits.isSheep,
+    alphaIndex: traits.alphaIndex,
+    isStaked: false,
+    isEscrowed: intoBarn,
+    lastTransferBlock: event.block.number,
+  });
+});
+
+// Handle unstake requests waiting on VRF
+ponder.on("Barn:UnstakeRequested", async ({ event, context }) => {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const { requestId, owner, sheepCount, wolfCount } = event.args;
+
+  await db.insert(unstakeRequests).values({
+    chainId,
+    requestId: requestId,
+    owner: owner,
+    sheepCount: Number(sheepCount),
+    wolfCount: Number(wolfCount),
+    status: "pending",
+    txHash: event.transaction.hash,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+  });
+});
+
+// Handle VRF fulfillments - the Barn logs emitted by the callback share this tx
+ponder.on("VRFCoordinator:RandomWordsFulfilled", async ({ event, context }) => {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const { requestId, success } = event.args;
+
+  // Mint requests share the subscription; a failed callback stays pending until rescued
+  const request = await db.find(unstakeRequests, { chainId, requestId });
+  if (!request || !success) return;
+
+  await db.update(unstakeRequests, { chainId, requestId }).set({
+    status: "fulfilled",
+    settledTxHash: event.transaction.hash,
+    settledBlockNumber: event.block.number,
+    settledTimestamp: event.block.timestamp,
+    latencyBlocks: event.block.number - request.blockNumber,
+    latencySeconds: event.block.timestamp - request.timestamp,
+  });
+
+  // Barn logged the settled sheep just before this, untaxed; survivors paid the
+  // rate in force (an eaten sheep's forfeited WOOL isn't in the event)
+  const survivors = await db.sql
+    .select()
+    .from(sheepClaims)
+    .where(
+      and(
+        eq(sheepClaims.chainId, chainId),
+        eq(sheepClaims.txHash, event.transaction.hash),
+        eq(sheepClaims.unstaked, true),
+        eq(sheepClaims.wasEaten, false)
+      )
+    );
+  if (survivors.length === 0) return;
+
+  const taxRate = await currentTaxPercentage(context);
+  let taxPaid = 0n;
+  for (const claim of survivors) {
+    const tax = withheldTax(claim.woolEarned, taxRate);
+    await db.update(sheepClaims, { id: claim.id }).set({ taxPaid: tax });
+    taxPaid += tax;
+  }
+  await rollupDaily(context, event.block.timestamp, { taxPaid });
+});
+
+// Handle stuck unstake requests rescued after the VRF timeout
+ponder.on("Barn:PendingUnstakeRescued", async ({ event, context }) => {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const { requestId } = event.args;
+
+  const request = await db.find(unstakeRequests, { chainId, requestId });
+  if (!request) return;
+
+  await db.update(unstakeRequests, { chainId, requestId }).set({
+    status: "rescued",
+    settledTxHash: event.transaction.hash,
+    settledBlockNumber: event.block.number,
+    settledTimestamp: event.block.timestamp,
+  });
+});
+
+// Handle Barn admin parameter changes
+ponder.on("Barn:DailyWoolRateChanged", async ({ event, context }) => {
+  const { oldRate, newRate } = event.args;
+  await recordParameterChange(event, context, "dailyWoolRate", oldRate, newRate);
+});
+
+ponder.on("Barn:MinimumToExitChanged", async ({ event, context }) => {
+  const { oldTime, newTime } = event.args;
+  await recordParameterChange(event, context, "minimumToExit", oldTime, newTime);
+});
+
+ponder.on("Barn:WoolClaimTaxPercentageChanged", async ({ event, context }) => {
+  const { oldPercentage, newPercentage } = event.args;
+  await recordParameterChange(event, context, "woolClaimTaxPercentage", oldPercentage, newPercentage);
+});
+
+ponder.on("Barn:SheepStealChanceChanged", async ({ event, context }) => {
+  const { oldChance, newChance } = event.args;
+  await recordParameterChange(event, context, "sheepStealChance", oldChance, newChance);
+});
+
+ponder.on("Barn:RescueEnabledChanged", async ({ event, context }) => {
+  const { enabled } = event.args;
+  await recordParameterChange(event, context, "rescueEnabled", null, enabled ? 1n : 0n);
+});
+
+// Handle WOOL transfers, including mints (from zero) and burns (to zero)
+ponder.on("Wool:Transfer", async ({ event, context }) => {
+  const { db } = context;
+  const chainId = context.chain.id;
+  const { from, to, value } = event.args;
+
+  if (from !== zeroAddress) {
+    await adjustWoolBalance(context, from, -value, event.block.number);
+  }
+  if (to !== zeroAddress) {
+    await adjustWoolBalance(context, to, value, event.block.number);
+  }
+
+  const minted = from === zeroAddress ? value : 0n;
+  const burned = to === zeroAddress ? value : 0n;
+  if (minted === 0n && burned === 0n) return;
+
+  // Roll into today's snapshot, carrying totals forward from the last active day
+  const day = utcDay(event.block.timestamp);
+  const today = await db.find(woolSupply, { chainId, day });
+  if (today) {
+    await db.update(woolSupply, { chainId, day }).set((row) => ({
+      minted: row.minted + minted,
+      burned: row.burned + burned,
+      totalMinted: row.totalMinted + minted,
+      totalBurned: row.totalBurned + burned,
+      totalSupply: row.totalSupply + minted - burned,
+    }));
+    return;
+  }
+
+  const [previous] = await db.sql
+    .select()
+    .from(woolSupply)
+    .where(eq(woolSupply.chainId, chainId))
+    .orderBy(desc(woolSupply.day))
+    .limit(1);
+  await db.insert(woolSupply).values({
+    chainId,
+    day,
+    minted,
+    burned,
+    totalMinted: (previous?.totalMinted ?? 0n) + minted,
+    totalBurned: (previous?.totalBurned ?? 0n) + burned,
+    totalSupply: (previous?.totalSupply ?? 0n) + minted - burned,
+  });
+});
+
+// Handle WOOL controller changes (who can mint/burn)
+ponder.on("Wool:ControllerSet", async ({ event, context }) => {
+  const { controller, allowed } = event.args;
+
+  await context.db
+    .insert(woolControllers)
+    .values({ chainId: context.chain.id, address: controller, allowed, updatedAt: event.block.timestamp })
+    .onConflictDoUpdate({ allowed, updatedAt: event.block.timestamp });
+});
+
+// Sample Barn/Woolf state that can't be rebuilt from events
+ponder.on("BarnSnapshot:block", async ({ event, context }) => {
+  const { barn, woolf } = deploymentOf(context).contracts;
+  const barnAbi = context.contracts.Barn.abi;
+
+  const [
+    totalSheepStaked,
+    totalAlphaStaked,
+    woolPerAlpha,
+    totalWoolEarned,
+    unaccountedRewards,
+    minted,
+  ] = await context.client.multicall({
+    contracts: [
+      { abi: barnAbi, address: barn, functionName: "totalSheepStaked" },
+      { abi: barnAbi, address: barn, functionName: "totalAlphaStaked" },
+      { abi: barnAbi, address: barn, functionName: "woolPerAlpha" },
+      { abi: barnAbi, address: barn, functionName: "totalWoolEarned" },
+      { abi: barnAbi, address: barn, functionName: "unaccountedRewards" },
+      { abi: context.contracts.Woolf.abi, address: woolf, functionName: "minted" },
+    ],
+    allowFailure: false,
+  });
+
+  await context.db.insert(barnSnapshots).values({
+    chainId: context.chain.id,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    totalSheepStaked,
+    totalAlphaStaked,
+    woolPerAlpha,
+    totalWoolEarned,
+    unaccountedRewards,
+    minted,
+  });
 });
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { claimOwnerOf, isRescueReemit, withheldTax } from "../src/claims.js";
+
+const STAKER = "0x1111111111111111111111111111111111111111";
+const HOLDER = "0x2222222222222222222222222222222222222222";
+
+describe("isRescueReemit", () => {
+  it("skips the zero claim rescuePendingUnstake re-emits for a wolf that already left", () => {
+    expect(isRescueReemit({ earned: 0n, unstaked: true }, false)).toBe(true);
+  });
+
+  it("keeps a real unstake, even a zero-earning Barn.rescue of a staked wolf", () => {
+    expect(isRescueReemit({ earned: 0n, unstaked: true }, true)).toBe(false);
+    expect(isRescueReemit({ earned: 500n, unstaked: true }, true)).toBe(false);
+  });
+
+  it("keeps a plain claim", () => {
+    expect(isRescueReemit({ earned: 0n, unstaked: false }, true)).toBe(false);
+    expect(isRescueReemit({ earned: 500n, unstaked: false }, false)).toBe(false);
+  });
+
+  it("keeps a paid unstake of a wolf we never saw staked", () => {
+    expect(isRescueReemit({ earned: 500n, unstaked: true }, false)).toBe(false);
+  });
+});
+
+describe("claimOwnerOf", () => {
+  it("pays the staker on record, not whoever holds the token", () => {
+    expect(claimOwnerOf({ owner: STAKER }, { owner: HOLDER })).toBe(STAKER);
+  });
+
+  it("falls back to the tokens row once the token left the pack", () => {
+    expect(claimOwnerOf(null, { owner: HOLDER })).toBe(HOLDER);
+  });
+
+  it("returns null for a token we never saw", () => {
+    expect(claimOwnerOf(null, null)).toBeNull();
+  });
+});
+
+describe("withheldTax", () => {
+  it("recovers the tax from a payout that is net of it", () => {
+    // 1000 owed at 20%: 800 paid out, 200 to the pack
+    expect(withheldTax(800n, 20n)).toBe(200n);
+  });
+
+  it("is zero when nothing was earned or no tax is set", () => {
+    expect(withheldTax(0n, 20n)).toBe(0n);
+    expect(withheldTax(800n, 0n)).toBe(0n);
+  });
+
+  it("is zero at a 100% rate, where the payout itself is zero", () => {
+    expect(withheldTax(0n, 100n)).toBe(0n);
+  });
+});
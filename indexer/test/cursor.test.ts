@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor } from "../src/api/cursor.js";
+
+describe("cursor encoding", () => {
+  it("round-trips a sort value and tie-breaking id", () => {
+    const cursor = { value: "1717000000", id: "0xabc-3" };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("keeps separators inside the id", () => {
+    const cursor = { value: "2024-06-01", id: "0x1:0x2" };
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it("is opaque to clients", () => {
+    expect(encodeCursor({ value: "1", id: "a" })).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects input without a value and an id", () => {
+    expect(decodeCursor("")).toBeNull();
+    expect(decodeCursor("not a cursor")).toBeNull();
+    expect(decodeCursor(Buffer.from("1717000000").toString("base64url"))).toBeNull();
+    expect(decodeCursor(Buffer.from(":0xabc-3").toString("base64url"))).toBeNull();
+  });
+});
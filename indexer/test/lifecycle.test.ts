@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { sortHistory, type HistoryEntry } from "../src/api/lifecycle.js";
+
+const REQUEST_TX = "0xaaaa";
+const SETTLE_TX = "0xbbbb";
+const OTHER_TX = "0xcccc";
+
+function step(
+  type: HistoryEntry["type"],
+  txHash: `0x${string}`,
+  blockNumber: bigint,
+  logIndex: number | null
+): HistoryEntry {
+  return { type, txHash, blockNumber, logIndex, timestamp: blockNumber * 2n };
+}
+
+const types = (history: HistoryEntry[]) => history.map((entry) => entry.type);
+
+describe("sortHistory", () => {
+  it("puts a request and its VRF settlement in the same block before the unstake", () => {
+    const history = [
+      step("unstaked", SETTLE_TX, 10n, 1),
+      step("vrf_fulfilled", SETTLE_TX, 10n, null),
+      step("unstake_requested", REQUEST_TX, 10n, null),
+      step("staked", OTHER_TX, 9n, 4),
+    ];
+    expect(types(sortHistory(history))).toEqual([
+      "staked",
+      "unstake_requested",
+      "vrf_fulfilled",
+      "unstaked",
+    ]);
+  });
+
+  it("keeps earlier logs of the block ahead of a request", () => {
+    const history = [
+      step("unstaked", SETTLE_TX, 10n, 7),
+      step("unstake_requested", REQUEST_TX, 10n, null),
+      step("claimed", OTHER_TX, 10n, 2),
+    ];
+    expect(types(sortHistory(history))).toEqual(["claimed", "unstake_requested", "unstaked"]);
+  });
+
+  it("places a request just before a step logged in its own tx", () => {
+    // Wolves leave in the request tx itself
+    const history = [
+      step("unstaked", REQUEST_TX, 10n, 3),
+      step("unstake_requested", REQUEST_TX, 10n, null),
+      step("claimed", OTHER_TX, 10n, 1),
+    ];
+    expect(types(sortHistory(history))).toEqual(["claimed", "unstake_requested", "unstaked"]);
+  });
+
+  it("puts a request that led to nothing else in its block last", () => {
+    const history = [
+      step("unstake_requested", REQUEST_TX, 10n, null),
+      step("claimed", OTHER_TX, 10n, 8),
+      step("unstaked", SETTLE_TX, 11n, 0),
+    ];
+    expect(types(sortHistory(history))).toEqual(["claimed", "unstake_requested", "unstaked"]);
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // Outside src/, which Ponder loads as indexing functions
+    include: ["test/**/*.test.ts"],
+    environment: "node",
+  },
+});
@@ -1,11 +1,12 @@
 -- Wolf Game Database Schema
 -- Links Farcaster users (FID) to wallets for notifications
 
--- Users table (links wallet to FID)
+-- Users table (one row per FID)
 CREATE TABLE IF NOT EXISTS users (
   id SERIAL PRIMARY KEY,
   fid BIGINT UNIQUE NOT NULL,
-  wallet_address TEXT,
+  wallet_address TEXT,  -- Legacy single wallet, copied into user_wallets below; no longer written.
+                        -- Still resolves notifications until cleared at the cut-over (docs/CHANGELOG.md)
   notifications_enabled BOOLEAN DEFAULT TRUE,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -14,6 +15,31 @@ CREATE TABLE IF NOT EXISTS users (
 CREATE INDEX IF NOT EXISTS idx_users_fid ON users(fid);
 CREATE INDEX IF NOT EXISTS idx_users_wallet ON users(LOWER(wallet_address));
 
+-- Wallets linked to a user (a player can link several)
+-- Only verified wallets (proven with a signed SIWE message) resolve notifications,
+-- plus carried-over legacy wallets until the cut-over
+CREATE TABLE IF NOT EXISTS user_wallets (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL,  -- Lowercase
+  verified BOOLEAN NOT NULL DEFAULT FALSE,
+  verified_at TIMESTAMPTZ,
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_wallets_wallet ON user_wallets(wallet_address);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_wallets_primary ON user_wallets(user_id) WHERE is_primary;
+
+-- Carry over wallets from users.wallet_address (unverified until re-linked, but
+-- still notified while users.wallet_address is set)
+INSERT INTO user_wallets (user_id, wallet_address, is_primary)
+SELECT id, LOWER(wallet_address), TRUE FROM users u
+WHERE wallet_address IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM user_wallets uw WHERE uw.user_id = u.id);
+
 -- Notification tokens table
 CREATE TABLE IF NOT EXISTS notification_tokens (
   id SERIAL PRIMARY KEY,
@@ -28,3 +54,35 @@ CREATE TABLE IF NOT EXISTS notification_tokens (
 
 CREATE INDEX IF NOT EXISTS idx_notification_tokens_fid ON notification_tokens(fid);
 CREATE INDEX IF NOT EXISTS idx_notification_tokens_enabled ON notification_tokens(enabled);
+
+-- Per-user notification preferences (a missing row means the defaults below)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  steal_unstake BOOLEAN NOT NULL DEFAULT TRUE,    -- Your wolf ate a sheep on unstake
+  steal_mint BOOLEAN NOT NULL DEFAULT TRUE,       -- Your wolf intercepted a mint
+  sheep_unlocked BOOLEAN NOT NULL DEFAULT TRUE,   -- A staked sheep can leave the barn
+  claim_reminders BOOLEAN NOT NULL DEFAULT FALSE,
+  tax_digest BOOLEAN NOT NULL DEFAULT FALSE,      -- Summary of wolf tax earned
+  quiet_hours_start SMALLINT CHECK (quiet_hours_start BETWEEN 0 AND 23),  -- Local hour, NULL = no quiet hours
+  quiet_hours_end SMALLINT CHECK (quiet_hours_end BETWEEN 0 AND 23),      -- Local hour (exclusive)
+  time_zone TEXT NOT NULL DEFAULT 'UTC',          -- IANA name, e.g. America/New_York
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Signed indexer requests already accepted (replay protection for /api/notify-steal)
+-- Rows past expires_at are outside the replay window and are pruned on insert
+CREATE TABLE IF NOT EXISTS indexer_request_signatures (
+  signature TEXT PRIMARY KEY,  -- Hex HMAC of the request
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_request_signatures_expires ON indexer_request_signatures(expires_at);
+
+-- SIWE nonces of accepted wallet links (replay protection for /api/register-wallet)
+-- Rows past expires_at belong to expired messages and are pruned on insert
+CREATE TABLE IF NOT EXISTS wallet_link_nonces (
+  nonce TEXT PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_link_nonces_expires ON wallet_link_nonces(expires_at);
@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
+import path from "path";
+
+// Contract addresses come from ../indexer/deployments.ts, so the build
+// resolves files from the repository root rather than just web/
+const repoRoot = path.join(__dirname, "..");
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  outputFileTracingRoot: repoRoot,
+  turbopack: {
+    root: repoRoot,
+  },
 };
 
 export default nextConfig;
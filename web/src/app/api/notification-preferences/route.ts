@@ -0,0 +1,152 @@
+/**
+ * Notification Preferences API Endpoint
+ *
+ * GET /api/notification-preferences
+ * The caller's preferences (defaults if never saved).
+ *
+ * PUT /api/notification-preferences
+ * Body: any subset of the GET response fields; the rest keep their values.
+ *
+ * Header: Authorization: Bearer <Quick Auth token>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getUserByFid,
+  upsertUser,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type NotificationPreferences,
+} from '@/lib/database';
+import { defaultWalletLinkVerifier, verifyQuickAuthToken } from '@/lib/walletAuth';
+
+const verifier = defaultWalletLinkVerifier();
+
+// Request/response field -> preference column
+const FIELDS = {
+  stealUnstake: 'steal_unstake',
+  stealMint: 'steal_mint',
+  sheepUnlocked: 'sheep_unlocked',
+  claimReminders: 'claim_reminders',
+  taxDigest: 'tax_digest',
+  quietHoursStart: 'quiet_hours_start',
+  quietHoursEnd: 'quiet_hours_end',
+  timeZone: 'time_zone',
+} as const satisfies Record<string, keyof NotificationPreferences>;
+
+type Field = keyof typeof FIELDS;
+
+function toResponse(preferences: NotificationPreferences) {
+  return Object.fromEntries(
+    (Object.keys(FIELDS) as Field[]).map(field => [field, preferences[FIELDS[field]]])
+  );
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a PUT body into column changes, or return an error message
+ */
+function parseChanges(body: Record<string, unknown>): Partial<NotificationPreferences> | string {
+  const changes: Partial<NotificationPreferences> = {};
+
+  for (const field of Object.keys(FIELDS) as Field[]) {
+    if (!(field in body)) continue;
+    const value = body[field];
+    const column = FIELDS[field];
+
+    if (column === 'time_zone') {
+      if (typeof value !== 'string' || !isTimeZone(value)) return `Invalid ${field}`;
+      changes.time_zone = value;
+    } else if (column === 'quiet_hours_start' || column === 'quiet_hours_end') {
+      if (value !== null && !(Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23)) {
+        return `${field} must be an hour from 0 to 23, or null`;
+      }
+      changes[column] = value as number | null;
+    } else {
+      if (typeof value !== 'boolean') return `${field} must be a boolean`;
+      changes[column] = value;
+    }
+  }
+
+  return changes;
+}
+
+async function authenticate(request: NextRequest): Promise<number | null> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  return token ? verifyQuickAuthToken(token, verifier) : null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const fid = await authenticate(request);
+    if (fid === null) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getUserByFid(fid);
+    const preferences = user
+      ? await getNotificationPreferences(user.id)
+      : DEFAULT_NOTIFICATION_PREFERENCES;
+
+    return NextResponse.json(toResponse(preferences));
+  } catch (error) {
+    console.error('[NotificationPreferences] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const fid = await authenticate(request);
+    if (fid === null) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const changes = parseChanges(body);
+    if (typeof changes === 'string') {
+      return NextResponse.json({ error: changes }, { status: 400 });
+    }
+
+    // Quiet hours are a window, so both ends are set or cleared together
+    const current = await getUserByFid(fid);
+    const merged = {
+      ...(current ? await getNotificationPreferences(current.id) : DEFAULT_NOTIFICATION_PREFERENCES),
+      ...changes,
+    };
+    if ((merged.quiet_hours_start === null) !== (merged.quiet_hours_end === null)) {
+      return NextResponse.json(
+        { error: 'quietHoursStart and quietHoursEnd must both be set or both be null' },
+        { status: 400 }
+      );
+    }
+    // An empty window would read as either never or always quiet
+    if (merged.quiet_hours_start !== null && merged.quiet_hours_start === merged.quiet_hours_end) {
+      return NextResponse.json(
+        { error: 'quietHoursStart and quietHoursEnd must be different hours' },
+        { status: 400 }
+      );
+    }
+
+    const user = current ?? (await upsertUser({ fid }));
+    const preferences = await updateNotificationPreferences(user.id, changes);
+
+    return NextResponse.json(toResponse(preferences));
+  } catch (error) {
+    console.error('[NotificationPreferences] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
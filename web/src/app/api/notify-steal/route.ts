@@ -5,26 +5,92 @@
  * Sends push notification to the wolf owner.
  *
  * POST /api/notify-steal
- * Body: { wolfOwnerWallet, stolenTokenId, eventType: 'unstake' | 'mint' }
+ * Body: { notificationId, chainId, stealId, wolfOwnerWallet, stolenTokenId, eventType: 'unstake' | 'mint' }
+ *
+ * notificationId is stable per steal event, so retries and replays are
+ * deduplicated by Farcaster clients.
+ *
+ * Requests must be signed by the indexer (see lib/indexerAuth), and the steal
+ * must exist in the indexer (INDEXER_URL) before anything is sent.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { sendWolfStealNotification } from '@/lib/notifications';
+import { verifyIndexerRequest } from '@/lib/indexerAuth';
+
+// Ponder indexer API used to confirm each steal; required for notifications
+const INDEXER_URL = process.env.INDEXER_URL;
+if (!INDEXER_URL) {
+  console.error('[NotifySteal] INDEXER_URL is not set; steal notifications will be refused');
+}
 
 interface NotifyStealRequest {
+  notificationId: string;
+  chainId: number;
+  stealId: string;
   wolfOwnerWallet: string;
   stolenTokenId: number;
   eventType: 'unstake' | 'mint';
 }
 
+interface IndexedSteal {
+  id: string;
+  sheepTokenId: number;
+  wolfOwner: string;
+  stealType: 'unstake' | 'mint';
+}
+
+/**
+ * Look the steal up in the indexer. Null when the indexer can't be reached.
+ */
+async function stealExists(indexerUrl: string, body: NotifyStealRequest): Promise<boolean | null> {
+  const params = new URLSearchParams({
+    chainId: String(body.chainId),
+    tokenId: String(body.stolenTokenId),
+    address: body.wolfOwnerWallet,
+  });
+  try {
+    const response = await fetch(`${indexerUrl}/steals?${params}`, { cache: 'no-store' });
+    if (!response.ok) return null;
+    const data: { items: IndexedSteal[] } = await response.json();
+    return data.items.some(steal =>
+      steal.id === body.stealId &&
+      steal.sheepTokenId === body.stolenTokenId &&
+      steal.wolfOwner.toLowerCase() === body.wolfOwnerWallet.toLowerCase() &&
+      steal.stealType === body.eventType
+    );
+  } catch (error) {
+    console.error('[NotifySteal] Error looking up steal:', error);
+    return null;
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const body: NotifyStealRequest = await request.json();
+    const rawBody = await request.text();
+    const auth = await verifyIndexerRequest(
+      rawBody,
+      request.headers.get('x-wolfgame-timestamp'),
+      request.headers.get('x-wolfgame-signature')
+    );
+    if (!auth.valid) {
+      console.warn(`[NotifySteal] Rejected request: ${auth.reason}`);
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: NotifyStealRequest = JSON.parse(rawBody);
 
     // Validate request body
-    if (!body.wolfOwnerWallet || typeof body.stolenTokenId !== 'number' || !body.eventType) {
+    if (
+      !body.notificationId ||
+      typeof body.chainId !== 'number' ||
+      !body.stealId ||
+      !body.wolfOwnerWallet ||
+      typeof body.stolenTokenId !== 'number' ||
+      !body.eventType
+    ) {
       return NextResponse.json(
-        { error: 'Missing required fields: wolfOwnerWallet, stolenTokenId, eventType' },
+        { error: 'Missing required fields: notificationId, chainId, stealId, wolfOwnerWallet, stolenTokenId, eventType' },
         { status: 400 }
       );
     }
@@ -38,8 +104,24 @@ export async function POST(request: NextRequest) {
 
     console.log(`[NotifySteal] Received steal notification request:`, body);
 
+    if (!INDEXER_URL) {
+      // Misconfiguration, not an outage: say so rather than a retryable "unavailable"
+      console.error('[NotifySteal] INDEXER_URL is not set; cannot verify steal');
+      return NextResponse.json({ error: 'INDEXER_URL is not configured' }, { status: 500 });
+    }
+
+    const exists = await stealExists(INDEXER_URL, body);
+    if (exists === null) {
+      // Indexer unreachable - let the dispatcher retry
+      return NextResponse.json({ error: 'Unable to verify steal' }, { status: 503 });
+    }
+    if (!exists) {
+      return NextResponse.json({ error: 'Steal not found' }, { status: 404 });
+    }
+
     // Send the notification
     const result = await sendWolfStealNotification(
+      body.notificationId,
       body.wolfOwnerWallet,
       body.stolenTokenId,
       body.eventType
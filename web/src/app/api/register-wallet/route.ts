@@ -3,41 +3,61 @@
  *
  * Called by the Mini App client to link a wallet address to a FID.
  * This enables sending notifications to users based on their wallet address.
+ * A FID can link several wallets; see /api/wallets to list or unlink them.
  *
  * POST /api/register-wallet
- * Body: { fid, walletAddress }
+ * Body: { token, walletAddress, message, signature }
+ *
+ * token is a Farcaster Quick Auth JWT (the FID comes from it, never the body).
+ * message is a SIWE message signed by walletAddress that lists
+ * farcaster://fid/<fid> in its resources, expires within ten minutes of
+ * being issued, and has not been used before. See lib/walletAuth.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { query } from '@/lib/database';
+import { isAddress, isHex } from 'viem';
+import { upsertUser, linkWallet } from '@/lib/database';
+import { defaultWalletLinkVerifier, verifyWalletLink } from '@/lib/walletAuth';
+
+const verifier = defaultWalletLinkVerifier();
 
 interface RegisterWalletRequest {
-  fid: number;
+  token: string;
   walletAddress: string;
+  message: string;
+  signature: string;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: RegisterWalletRequest = await request.json();
 
-    if (!body.fid || !body.walletAddress) {
+    if (!body.token || !body.walletAddress || !body.message || !body.signature) {
       return NextResponse.json(
-        { error: 'Missing required fields: fid, walletAddress' },
+        { error: 'Missing required fields: token, walletAddress, message, signature' },
         { status: 400 }
       );
     }
+    if (!isAddress(body.walletAddress) || !isHex(body.signature)) {
+      return NextResponse.json({ error: 'Invalid walletAddress or signature' }, { status: 400 });
+    }
+
+    const link = await verifyWalletLink({
+      token: body.token,
+      walletAddress: body.walletAddress,
+      message: body.message,
+      signature: body.signature,
+    }, verifier);
+    if (!link.valid) {
+      console.warn(`[RegisterWallet] Rejected ${body.walletAddress}: ${link.reason}`);
+      return NextResponse.json({ error: link.reason }, { status: 401 });
+    }
+
+    console.log(`[RegisterWallet] FID ${link.fid} -> ${link.walletAddress}`);
 
-    console.log(`[RegisterWallet] FID ${body.fid} -> ${body.walletAddress}`);
-
-    // Upsert user with wallet address
-    await query(
-      `INSERT INTO users (fid, wallet_address, updated_at)
-       VALUES ($1, $2, NOW())
-       ON CONFLICT (fid) DO UPDATE SET
-         wallet_address = $2,
-         updated_at = NOW()`,
-      [body.fid, body.walletAddress.toLowerCase()]
-    );
+    // Add the wallet alongside any others the user has linked
+    const user = await upsertUser({ fid: link.fid });
+    await linkWallet(user.id, link.walletAddress, true);
 
     return NextResponse.json({ success: true });
   } catch (error) {
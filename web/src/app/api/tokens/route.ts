@@ -1,7 +1,24 @@
+/**
+ * Tokens API Endpoint
+ *
+ * GET /api/tokens?address=0x...
+ * Full inventory for a wallet: every unstaked token, every token in the Barn
+ * (with traits and stake data), and pending mint/unstake requests.
+ *
+ * Reads the Ponder indexer (INDEXER_URL) when it is set and agrees with the
+ * chain's balances, otherwise falls back to RPC. Results are cached per
+ * address until the indexer processes another block (RPC results also expire
+ * after CACHE_TTL_MS); a request with Cache-Control: no-cache (sent by fetch
+ * with cache: 'no-store') skips the cache, e.g. right after a mint.
+ *
+ * GET /api/tokens?address=0x...&index=N
+ * Legacy single-token lookup by tokenOfOwnerByIndex.
+ */
+
 import { NextRequest, NextResponse } from 'next/server';
-import { createPublicClient, http } from 'viem';
+import { createPublicClient, http, isAddress } from 'viem';
 import { baseSepolia } from 'viem/chains';
-import { CONTRACTS, woolfAbi } from '@/lib/contracts';
+import { CONTRACTS, woolfAbi, barnAbi } from '@/lib/contracts';
 
 // Create a public client for reading from the blockchain
 const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL || 'https://sepolia.base.org';
@@ -10,84 +27,311 @@ const client = createPublicClient({
   transport: http(rpcUrl),
 });
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const address = searchParams.get('address');
-  const count = searchParams.get('count'); // New: fetch multiple tokens at once
+// Ponder indexer API (e.g. http://localhost:42069); RPC only when unset
+const indexerUrl = process.env.INDEXER_URL;
 
-  if (!address) {
-    return NextResponse.json({ error: 'Missing address' }, { status: 400 });
+// Most addresses kept in the response cache (oldest evicted first)
+const MAX_CACHED_ADDRESSES = 500;
+// How long an inventory built from RPC is served (indexer ones last until the next indexed block)
+const CACHE_TTL_MS = 15_000;
+
+interface TokenInfo {
+  tokenId: number;
+  isSheep: boolean;
+  alphaIndex: number; // 0-3 for wolves (alpha 8-5), 0 for sheep
+}
+
+interface StakedTokenInfo extends TokenInfo {
+  stakedAt?: number; // Sheep: Barn stake timestamp (reset on every claim)
+  stakedWoolPerAlpha?: string; // Wolves: woolPerAlpha at the last claim (decimal string)
+  unstaking: boolean; // Wolf that left the pack but is held in escrow until its unstake request settles
+}
+
+interface Inventory {
+  source: 'indexer' | 'rpc';
+  block: number; // Indexed block (indexer) or chain head (rpc) the data reflects
+  unstaked: TokenInfo[];
+  staked: StakedTokenInfo[];
+  // Only the indexer sees requests; null when served from RPC
+  pending: {
+    unstakeRequests: { requestId: string; sheepCount: number; wolfCount: number; requestedAt: number }[];
+    mintRequests: { requestId: string; amount: number; requestedAt: number }[];
+  } | null;
+}
+
+interface CacheEntry {
+  inventory: Inventory;
+  indexedBlock: number | null; // What /status reported when the entry was built (null if unreachable)
+  cachedAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+function cacheInventory(address: string, inventory: Inventory, indexedBlock: number | null) {
+  cache.delete(address);
+  cache.set(address, { inventory, indexedBlock, cachedAt: Date.now() });
+  if (cache.size > MAX_CACHED_ADDRESSES) {
+    cache.delete(cache.keys().next().value as string);
   }
+}
 
-  // Batch mode: fetch all tokens for an address
-  if (count) {
-    const tokenCount = Math.min(parseInt(count), 50); // Cap at 50
-    if (isNaN(tokenCount) || tokenCount <= 0) {
-      return NextResponse.json({ error: 'Invalid count' }, { status: 400 });
-    }
+/**
+ * Latest block the indexer has processed for this chain, or null if it's unreachable
+ */
+async function indexedBlock(): Promise<number | null> {
+  if (!indexerUrl) return null;
+  try {
+    const response = await fetch(`${indexerUrl}/status`, { cache: 'no-store' });
+    if (!response.ok) return null;
+    const status: Record<string, { id: number; block: { number: number } }> = await response.json();
+    const chain = Object.values(status).find(entry => entry.id === baseSepolia.id);
+    return chain ? chain.block.number : null;
+  } catch {
+    return null;
+  }
+}
 
-    try {
-      // First, get all token IDs using multicall
-      const tokenIdCalls = Array.from({ length: tokenCount }, (_, i) => ({
-        address: CONTRACTS.woolf as `0x${string}`,
-        abi: woolfAbi,
-        functionName: 'tokenOfOwnerByIndex' as const,
-        args: [address as `0x${string}`, BigInt(i)],
-      }));
-
-      const tokenIdResults = await client.multicall({
-        contracts: tokenIdCalls,
-        allowFailure: true,
-      });
-
-      // Filter successful results and get token IDs
-      const validTokenIds: bigint[] = [];
-      for (const result of tokenIdResults) {
-        if (result.status === 'success' && result.result !== undefined) {
-          validTokenIds.push(result.result as bigint);
-        }
-      }
+async function inventoryFromIndexer(address: string, block: number): Promise<Inventory | null> {
+  try {
+    const response = await fetch(
+      `${indexerUrl}/owners/${address}/inventory?chainId=${baseSepolia.id}`,
+      { cache: 'no-store' }
+    );
+    if (!response.ok) return null;
+    const data: {
+      tokens: {
+        tokenId: number;
+        isSheep: boolean;
+        alphaIndex: number;
+        isStaked: boolean;
+        isEscrowed: boolean;
+        stakeValue: string | null;
+      }[];
+      pendingUnstakes: { requestId: string; sheepCount: number; wolfCount: number; timestamp: string }[];
+      pendingMints: { requestId: string; amount: number; timestamp: string }[];
+    } = await response.json();
 
-      if (validTokenIds.length === 0) {
-        return NextResponse.json({ tokens: [] });
+    const unstaked: TokenInfo[] = [];
+    const staked: StakedTokenInfo[] = [];
+    for (const token of data.tokens) {
+      const info = { tokenId: token.tokenId, isSheep: token.isSheep, alphaIndex: token.alphaIndex };
+      if (!token.isEscrowed) {
+        unstaked.push(info);
+      } else if (token.isSheep) {
+        staked.push({
+          ...info,
+          stakedAt: token.stakeValue !== null ? Number(token.stakeValue) : undefined,
+          unstaking: !token.isStaked,
+        });
+      } else {
+        staked.push({
+          ...info,
+          stakedWoolPerAlpha: token.stakeValue ?? undefined,
+          unstaking: !token.isStaked,
+        });
       }
+    }
 
-      // Now get traits for all valid tokens using multicall
-      const traitsCalls = validTokenIds.map(tokenId => ({
-        address: CONTRACTS.woolf as `0x${string}`,
-        abi: woolfAbi,
-        functionName: 'getTokenTraits' as const,
-        args: [tokenId],
-      }));
-
-      const traitsResults = await client.multicall({
-        contracts: traitsCalls,
-        allowFailure: true,
-      });
-
-      // Combine results
-      const tokens = validTokenIds.map((tokenId, i) => {
-        const traitsResult = traitsResults[i];
-        const isSheep = traitsResult.status === 'success'
-          ? (traitsResult.result as { isSheep: boolean }).isSheep
-          : true; // Default to sheep if traits fetch fails
-        return {
-          tokenId: Number(tokenId),
-          isSheep,
-        };
-      });
-
-      return NextResponse.json({ tokens });
-    } catch (error) {
-      console.error('Error fetching tokens batch:', error);
-      return NextResponse.json({ error: 'Failed to fetch tokens' }, { status: 500 });
+    return {
+      source: 'indexer',
+      block,
+      unstaked,
+      staked,
+      pending: {
+        unstakeRequests: data.pendingUnstakes.map(request => ({
+          requestId: request.requestId,
+          sheepCount: request.sheepCount,
+          wolfCount: request.wolfCount,
+          requestedAt: Number(request.timestamp),
+        })),
+        mintRequests: data.pendingMints.map(request => ({
+          requestId: request.requestId,
+          amount: request.amount,
+          requestedAt: Number(request.timestamp),
+        })),
+      },
+    };
+  } catch (error) {
+    console.error('Error fetching inventory from indexer:', error);
+    return null;
+  }
+}
+
+async function inventoryFromRpc(address: `0x${string}`, block: bigint): Promise<Inventory> {
+  const [balance, stakedIds] = await Promise.all([
+    client.readContract({
+      address: CONTRACTS.woolf as `0x${string}`,
+      abi: woolfAbi,
+      functionName: 'balanceOf',
+      args: [address],
+      blockNumber: block,
+    }),
+    client.readContract({
+      address: CONTRACTS.barn as `0x${string}`,
+      abi: barnAbi,
+      functionName: 'getStakedTokens',
+      args: [address],
+      blockNumber: block,
+    }),
+  ]);
+
+  const walletIds = await client.multicall({
+    contracts: Array.from({ length: Number(balance) }, (_, i) => ({
+      address: CONTRACTS.woolf as `0x${string}`,
+      abi: woolfAbi,
+      functionName: 'tokenOfOwnerByIndex' as const,
+      args: [address, BigInt(i)] as const,
+    })),
+    allowFailure: false,
+    blockNumber: block,
+  });
+
+  const tokenIds = [...walletIds, ...stakedIds.map(tokenId => BigInt(tokenId))];
+  const traits = await client.multicall({
+    contracts: tokenIds.map(tokenId => ({
+      address: CONTRACTS.woolf as `0x${string}`,
+      abi: woolfAbi,
+      functionName: 'getTokenTraits' as const,
+      args: [tokenId] as const,
+    })),
+    allowFailure: false,
+    blockNumber: block,
+  });
+  const infos: TokenInfo[] = tokenIds.map((tokenId, i) => ({
+    tokenId: Number(tokenId),
+    isSheep: traits[i].isSheep,
+    alphaIndex: traits[i].alphaIndex,
+  }));
+  const stakedInfos = infos.slice(walletIds.length);
+
+  // Sheep stakes live in barn(tokenId); wolves in pack(alpha, packIndices(tokenId))
+  const [barnStakes, packIndices] = await Promise.all([
+    client.multicall({
+      contracts: stakedInfos.map(token => ({
+        address: CONTRACTS.barn as `0x${string}`,
+        abi: barnAbi,
+        functionName: 'barn' as const,
+        args: [BigInt(token.tokenId)] as const,
+      })),
+      allowFailure: false,
+      blockNumber: block,
+    }),
+    client.multicall({
+      contracts: stakedInfos.map(token => ({
+        address: CONTRACTS.barn as `0x${string}`,
+        abi: barnAbi,
+        functionName: 'packIndices' as const,
+        args: [BigInt(token.tokenId)] as const,
+      })),
+      allowFailure: false,
+      blockNumber: block,
+    }),
+  ]);
+  const wolves = stakedInfos.flatMap((token, i) => (token.isSheep ? [] : [{ token, packIndex: packIndices[i] }]));
+  const packStakes = await client.multicall({
+    contracts: wolves.map(({ token, packIndex }) => ({
+      address: CONTRACTS.barn as `0x${string}`,
+      abi: barnAbi,
+      functionName: 'pack' as const,
+      // Alpha = 8 - alphaIndex (so indices 0,1,2,3 map to alpha 8,7,6,5)
+      args: [BigInt(8 - token.alphaIndex), packIndex] as const,
+    })),
+    allowFailure: false,
+    blockNumber: block,
+  });
+  // A wolf in a pending unstake has left the pack, so its pack slot now holds another wolf
+  const wolfValues = new Map(
+    wolves.flatMap(({ token }, i) =>
+      packStakes[i][0] === token.tokenId ? [[token.tokenId, packStakes[i][1]] as const] : []
+    )
+  );
+
+  return {
+    source: 'rpc',
+    block: Number(block),
+    unstaked: infos.slice(0, walletIds.length),
+    staked: stakedInfos.map((token, i) =>
+      token.isSheep
+        ? { ...token, stakedAt: Number(barnStakes[i][1]), unstaking: false }
+        : {
+            ...token,
+            stakedWoolPerAlpha: wolfValues.get(token.tokenId)?.toString(),
+            unstaking: !wolfValues.has(token.tokenId),
+          }
+    ),
+    pending: null,
+  };
+}
+
+/**
+ * Served from the cache unless `fresh` is set or the indexer has moved past
+ * the block the entry was built at (or, for RPC entries, it has expired).
+ * The indexer's view is only used when it matches the chain's wallet and
+ * Barn counts; a lagging indexer would otherwise hide fresh mints and stakes.
+ */
+async function getInventory(address: `0x${string}`, fresh: boolean): Promise<Inventory> {
+  const key = address.toLowerCase();
+  const indexed = await indexedBlock();
+  const cached = cache.get(key);
+  if (
+    !fresh &&
+    cached &&
+    cached.indexedBlock === indexed &&
+    (cached.inventory.source === 'indexer' || Date.now() - cached.cachedAt < CACHE_TTL_MS)
+  ) {
+    return cached.inventory;
+  }
+
+  const [head, balance, stakedCount] = await Promise.all([
+    client.getBlockNumber(),
+    client.readContract({
+      address: CONTRACTS.woolf as `0x${string}`,
+      abi: woolfAbi,
+      functionName: 'balanceOf',
+      args: [address],
+    }),
+    client.readContract({
+      address: CONTRACTS.barn as `0x${string}`,
+      abi: barnAbi,
+      functionName: 'getStakedTokenCount',
+      args: [address],
+    }),
+  ]);
+
+  const matchesChain = (inventory: Inventory) =>
+    inventory.unstaked.length === Number(balance) && inventory.staked.length === Number(stakedCount);
+
+  if (indexed !== null) {
+    const inventory = await inventoryFromIndexer(key, indexed);
+    if (inventory && matchesChain(inventory)) {
+      cacheInventory(key, inventory, indexed);
+      return inventory;
     }
   }
 
+  const inventory = await inventoryFromRpc(address, head);
+  cacheInventory(key, inventory, indexed);
+  return inventory;
+}
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const address = searchParams.get('address');
+
+  if (!address || !isAddress(address)) {
+    return NextResponse.json({ error: 'Missing or invalid address' }, { status: 400 });
+  }
+
   // Single token mode (legacy support)
   const index = searchParams.get('index');
   if (index === null) {
-    return NextResponse.json({ error: 'Missing index or count' }, { status: 400 });
+    try {
+      const fresh = request.headers.get('cache-control')?.includes('no-cache') ?? false;
+      return NextResponse.json(await getInventory(address, fresh));
+    } catch (error) {
+      console.error('Error fetching tokens:', error);
+      return NextResponse.json({ error: 'Failed to fetch tokens' }, { status: 500 });
+    }
   }
 
   try {
@@ -0,0 +1,45 @@
+/**
+ * Unlink Wallet API Endpoint
+ *
+ * Removes a wallet from the caller's FID. If it was the primary wallet,
+ * another linked wallet becomes primary.
+ *
+ * DELETE /api/wallets/0x...
+ * Header: Authorization: Bearer <Quick Auth token>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getUserByFid, unlinkWallet } from '@/lib/database';
+import { defaultWalletLinkVerifier, verifyQuickAuthToken } from '@/lib/walletAuth';
+
+const verifier = defaultWalletLinkVerifier();
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    const fid = token ? await verifyQuickAuthToken(token, verifier) : null;
+    if (fid === null) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { address } = await params;
+    if (!isAddress(address)) {
+      return NextResponse.json({ error: 'Invalid address' }, { status: 400 });
+    }
+
+    const user = await getUserByFid(fid);
+    if (!user || !(await unlinkWallet(user.id, address))) {
+      return NextResponse.json({ error: 'Wallet not linked' }, { status: 404 });
+    }
+
+    console.log(`[Wallets] FID ${fid} unlinked ${address}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Wallets] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
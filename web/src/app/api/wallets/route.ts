@@ -0,0 +1,41 @@
+/**
+ * Linked Wallets API Endpoint
+ *
+ * Lists the wallets linked to the caller's FID.
+ *
+ * GET /api/wallets
+ * Header: Authorization: Bearer <Quick Auth token>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserByFid, getWalletsForUser } from '@/lib/database';
+import { defaultWalletLinkVerifier, verifyQuickAuthToken } from '@/lib/walletAuth';
+
+const verifier = defaultWalletLinkVerifier();
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    const fid = token ? await verifyQuickAuthToken(token, verifier) : null;
+    if (fid === null) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await getUserByFid(fid);
+    const wallets = user ? await getWalletsForUser(user.id) : [];
+
+    return NextResponse.json({
+      fid,
+      wallets: wallets.map(wallet => ({
+        address: wallet.wallet_address,
+        verified: wallet.verified,
+        verifiedAt: wallet.verified_at,
+        primary: wallet.is_primary,
+        linkedAt: wallet.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('[Wallets] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
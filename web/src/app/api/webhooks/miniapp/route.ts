@@ -6,17 +6,28 @@
  * - Remove the Mini App (miniapp_removed)
  * - Enable notifications (notifications_enabled)
  * - Disable notifications (notifications_disabled)
+ *
+ * Events are JSON Farcaster Signatures. Anything not signed by an active
+ * app key of the FID in the header is rejected with 401.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
 import {
-  query,
   upsertUser,
+  linkWallet,
   saveNotificationToken,
   disableTokensForUser,
   deleteTokensForUser,
   setUserNotificationsEnabled,
 } from '@/lib/database';
+import {
+  onchainKeyRegistry,
+  verifyJsonFarcasterSignature,
+  type JsonFarcasterSignature,
+} from '@/lib/farcasterSignature';
+
+const keyRegistry = onchainKeyRegistry();
 
 interface NotificationDetails {
   url: string;
@@ -28,54 +39,46 @@ interface WebhookEvent {
   notificationDetails?: NotificationDetails;
 }
 
-interface FarcasterSignedMessage {
-  header: string;
-  payload: string;
-  signature: string;
-}
-
-function decodeBase64Url(str: string): any {
-  const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
-  const jsonString = Buffer.from(base64, 'base64').toString('utf-8');
-  return JSON.parse(jsonString);
-}
-
 export async function POST(request: NextRequest) {
   try {
-    const signedMessage: FarcasterSignedMessage = await request.json();
+    const signedMessage: JsonFarcasterSignature = await request.json();
+    if (
+      typeof signedMessage?.header !== 'string' ||
+      typeof signedMessage.payload !== 'string' ||
+      typeof signedMessage.signature !== 'string'
+    ) {
+      return NextResponse.json(
+        { error: 'Missing required fields: header, payload, signature' },
+        { status: 400 }
+      );
+    }
 
-    // Extract FID and event from signed message
-    const header = decodeBase64Url(signedMessage.header);
-    const payload = decodeBase64Url(signedMessage.payload);
-    const fid = header.fid;
+    // Only trust the FID and event once the signature and app key check out
+    const verified = await verifyJsonFarcasterSignature(signedMessage, keyRegistry);
+    if (!verified.valid) {
+      console.warn(`[Webhook] Rejected event: ${verified.reason}`);
+      return NextResponse.json({ error: verified.reason }, { status: 401 });
+    }
+    const fid = verified.fid;
+    const payload = verified.payload as WebhookEvent & { address?: string; walletAddress?: string };
     const eventData: WebhookEvent = payload;
 
     // Extract wallet address if available in the payload
     // The wallet can come from different places depending on the event
-    const walletAddress = payload.address || payload.walletAddress || null;
+    const walletAddress = payload.address || payload.walletAddress || undefined;
 
     console.log(`[Webhook] ${eventData.event} from FID ${fid}`);
     console.log(`[Webhook] Wallet: ${walletAddress || 'not provided'}`);
 
-    // Find or create user with wallet address
-    let userResult = await query('SELECT id FROM users WHERE fid = $1', [fid]);
-    let userId: number;
+    // Find or create user
+    const user = await upsertUser({ fid });
+    const userId = user.id;
 
-    if (userResult.rows.length === 0) {
-      // Create new user
-      const user = await upsertUser({ fid, wallet_address: walletAddress });
-      userId = user.id;
-      console.log(`[Webhook] Created new user ${userId} for FID ${fid}`);
-    } else {
-      userId = userResult.rows[0].id;
-      // Update wallet address if provided and user exists
-      if (walletAddress) {
-        await query(
-          'UPDATE users SET wallet_address = $1, updated_at = NOW() WHERE id = $2',
-          [walletAddress, userId]
-        );
-        console.log(`[Webhook] Updated wallet for user ${userId}`);
-      }
+    // A wallet named in the payload is linked unverified: it is listed for the
+    // user but only resolves notifications once proven via /api/register-wallet
+    if (walletAddress && isAddress(walletAddress)) {
+      await linkWallet(userId, walletAddress, false);
+      console.log(`[Webhook] Linked unverified wallet for user ${userId}`);
     }
 
     // Handle event
@@ -18,6 +18,15 @@ interface TokenInfo {
   stakedWoolPerAlpha?: bigint; // woolPerAlpha when wolf was staked
 }
 
+// Unstaked tokens in a wallet, from the batched inventory route. Pass fresh
+// right after a transaction so the route skips its cache.
+async function fetchWalletTokens(address: string, fresh = false): Promise<TokenInfo[]> {
+  const response = await fetch(`/api/tokens?address=${address}`, fresh ? { cache: 'no-store' } : undefined);
+  if (!response.ok) throw new Error(`Failed to fetch tokens: ${response.status}`);
+  const data: { unstaked?: TokenInfo[] } = await response.json();
+  return data.unstaked || [];
+}
+
 export default function Home() {
   const { address, isConnected } = useAccount();
   const [unstakedTokens, setUnstakedTokens] = useState<TokenInfo[]>([]);
@@ -91,6 +100,8 @@ export default function Home() {
       if (balanceUnchanged && noNewRefresh && balance !== undefined) {
         return;
       }
+      // Anything after the first load follows a change, so bypass the route's cache
+      const fresh = lastFetchedBalanceRef.current !== undefined || refreshKey > 0;
       lastFetchedBalanceRef.current = balance;
       lastFetchedRefreshKeyRef.current = refreshKey;
 
@@ -102,22 +113,16 @@ export default function Home() {
 
       setIsLoading(true);
       try {
-        // Fetch all unstaked tokens in a single batch call
-        const response = await fetch(`/api/tokens?address=${address}&count=${Math.min(tokenCount, 50)}`);
-        if (response.ok) {
-          const data = await response.json();
-          // Deduplicate by tokenId to prevent React key warnings
-          const tokens: TokenInfo[] = data.tokens || [];
-          const seen = new Set<number>();
-          const uniqueTokens = tokens.filter(t => {
-            if (seen.has(t.tokenId)) return false;
-            seen.add(t.tokenId);
-            return true;
-          });
-          setUnstakedTokens(uniqueTokens);
-        } else {
-          setUnstakedTokens([]);
-        }
+        // Fetch the full inventory in one call (the route reads the indexer, falling back to RPC)
+        const tokens = await fetchWalletTokens(address, fresh);
+        // Deduplicate by tokenId to prevent React key warnings
+        const seen = new Set<number>();
+        const uniqueTokens = tokens.filter(t => {
+          if (seen.has(t.tokenId)) return false;
+          seen.add(t.tokenId);
+          return true;
+        });
+        setUnstakedTokens(uniqueTokens);
       } catch (error) {
         console.error('Error fetching tokens:', error);
         setUnstakedTokens([]);
@@ -384,24 +389,14 @@ export default function Home() {
         // Get existing token IDs to filter out
         const existingTokenIds = new Set(unstakedTokens.map(t => t.tokenId));
 
-        // Fetch the newly minted tokens (they're at the end of the owner's list)
-        // Add cache-busting timestamp to avoid stale data
-        const newTokens: TokenInfo[] = [];
-        for (let i = Number(oldBalance); i < Number(newBalance); i++) {
-          try {
-            const response = await fetch(
-              `/api/tokens?address=${address}&index=${i}&woolf=${CONTRACTS.woolf}&t=${Date.now()}`
-            );
-            if (response.ok) {
-              const data = await response.json();
-              // Only add if it's truly a new token we didn't have before
-              if (!existingTokenIds.has(data.tokenId)) {
-                newTokens.push({ tokenId: data.tokenId, isSheep: data.isSheep });
-              }
-            }
-          } catch (e) {
-            console.error(`Error fetching new token ${i}:`, e);
-          }
+        // Fetch the wallet once and keep the tokens we didn't have before
+        let newTokens: TokenInfo[] = [];
+        try {
+          newTokens = (address ? await fetchWalletTokens(address, true) : [])
+            .filter(t => !existingTokenIds.has(t.tokenId))
+            .map(({ tokenId, isSheep }) => ({ tokenId, isSheep }));
+        } catch (e) {
+          console.error('Error fetching new tokens:', e);
         }
 
         // Mark mint as completed to prevent further polling
@@ -517,21 +512,15 @@ export default function Home() {
         const actualReturned = balanceIncrease;
         const stolen = sheepCount > 0 ? Math.max(0, expectedReturn - actualReturned) : 0;
 
-        // Fetch the returned tokens
-        const returned: TokenInfo[] = [];
-        if (newBalance && oldBalance) {
-          for (let i = Number(oldBalance); i < Number(newBalance); i++) {
-            try {
-              const response = await fetch(
-                `/api/tokens?address=${address}&index=${i}&woolf=${CONTRACTS.woolf}&t=${Date.now()}`
-              );
-              if (response.ok) {
-                const data = await response.json();
-                returned.push({ tokenId: data.tokenId, isSheep: data.isSheep });
-              }
-            } catch (e) {
-              console.error(`Error fetching returned token ${i}:`, e);
-            }
+        // Fetch the wallet once; returned tokens are the unstaked ones now back in it
+        let returned: TokenInfo[] = [];
+        if (address && balanceIncrease > 0) {
+          try {
+            returned = (await fetchWalletTokens(address, true))
+              .filter(t => unstakingIds.includes(t.tokenId))
+              .map(({ tokenId, isSheep }) => ({ tokenId, isSheep }));
+          } catch (e) {
+            console.error('Error fetching returned tokens:', e);
           }
         }
 
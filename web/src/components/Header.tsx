@@ -6,6 +6,7 @@ import { useWoolBalance } from '@/hooks/useWool';
 import { formatEther } from 'viem';
 import Link from 'next/link';
 import sdk from '@farcaster/miniapp-sdk';
+import { NotificationSettings } from './NotificationSettings';
 
 export function Header() {
   const { address, isConnected } = useAccount();
@@ -16,6 +17,7 @@ export function Header() {
 
   const [showWalletOverlay, setShowWalletOverlay] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
   const [copied, setCopied] = useState(false);
   const [userProfile, setUserProfile] = useState<{ pfpUrl?: string; username?: string } | null>(null);
 
@@ -222,14 +224,28 @@ export function Header() {
             </Link>
             <Link
               href="/faq"
-              className="block px-4 py-3 text-sm hover:bg-muted transition"
+              className="block px-4 py-3 text-sm hover:bg-muted transition border-b border-border"
               onClick={() => setShowMenu(false)}
             >
               FAQ
             </Link>
+            <button
+              className="block w-full text-left px-4 py-3 text-sm hover:bg-muted transition"
+              onClick={() => {
+                setShowMenu(false);
+                setShowNotificationSettings(true);
+              }}
+            >
+              Notifications
+            </button>
           </div>
         </div>
       )}
+
+      {/* Notification Settings */}
+      {showNotificationSettings && (
+        <NotificationSettings onClose={() => setShowNotificationSettings(false)} />
+      )}
     </>
   );
 }
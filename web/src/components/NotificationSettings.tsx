@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import sdk from '@farcaster/miniapp-sdk';
+
+interface Preferences {
+  stealUnstake: boolean;
+  stealMint: boolean;
+  sheepUnlocked: boolean;
+  claimReminders: boolean;
+  taxDigest: boolean;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  timeZone: string;
+}
+
+type Toggle = 'stealUnstake' | 'stealMint' | 'sheepUnlocked' | 'claimReminders' | 'taxDigest';
+
+const TOGGLES: { key: Toggle; label: string; description: string }[] = [
+  { key: 'stealUnstake', label: 'Sheep stolen on unstake', description: 'Your wolf caught a sheep leaving the Barn' },
+  { key: 'stealMint', label: 'Mint intercepted', description: 'Your wolf stole a newly minted token' },
+  { key: 'sheepUnlocked', label: 'Sheep unlocked', description: 'A staked sheep can be unstaked' },
+  { key: 'claimReminders', label: 'Claim reminders', description: 'WOOL waiting to be claimed' },
+  { key: 'taxDigest', label: 'Tax digest', description: 'Summary of WOOL taxes your wolves earned' },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+export function NotificationSettings({ onClose }: { onClose: () => void }) {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const response = await sdk.quickAuth.fetch('/api/notification-preferences');
+        if (!response.ok) throw new Error(`Failed to load preferences: ${response.status}`);
+        const data: Preferences = await response.json();
+        // Suggest this device's time zone until the user has picked one
+        if (data.timeZone === 'UTC') {
+          data.timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+        }
+        setPreferences(data);
+      } catch (err) {
+        console.error('[NotificationSettings] Failed to load:', err);
+        setError('Open Wolf Game in Farcaster to manage notifications');
+      }
+    };
+    loadPreferences();
+  }, []);
+
+  const update = (changes: Partial<Preferences>) => {
+    setPreferences(current => (current ? { ...current, ...changes } : current));
+    setSaved(false);
+  };
+
+  const save = async () => {
+    if (!preferences) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await sdk.quickAuth.fetch('/api/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save preferences');
+      setPreferences(data);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preferences');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const quietHoursEnabled = preferences?.quietHoursStart !== null && preferences?.quietHoursEnd !== null;
+  // The API rejects a window that starts and ends on the same hour
+  const quietHoursEmpty = quietHoursEnabled && preferences?.quietHoursStart === preferences?.quietHoursEnd;
+
+  return (
+    <div
+      className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card border border-border rounded-lg p-6 max-w-sm w-full shadow-xl max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Title and close button */}
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold">Notifications</h2>
+          <button
+            onClick={onClose}
+            className="text-muted-foreground hover:text-foreground p-1"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!preferences ? (
+          <div className="text-sm text-muted-foreground text-center py-6">
+            {error || 'Loading...'}
+          </div>
+        ) : (
+          <>
+            {/* Categories */}
+            <div className="space-y-2 mb-6">
+              {TOGGLES.map(({ key, label, description }) => (
+                <label
+                  key={key}
+                  className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg cursor-pointer"
+                >
+                  <span>
+                    <span className="block text-sm font-medium">{label}</span>
+                    <span className="block text-xs text-muted-foreground">{description}</span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={preferences[key]}
+                    onChange={e => update({ [key]: e.target.checked })}
+                    className="w-4 h-4 accent-primary"
+                  />
+                </label>
+              ))}
+            </div>
+
+            {/* Quiet hours */}
+            <div className="p-3 bg-muted rounded-lg mb-6 space-y-3">
+              <label className="flex items-center justify-between gap-3 cursor-pointer">
+                <span>
+                  <span className="block text-sm font-medium">Quiet hours</span>
+                  <span className="block text-xs text-muted-foreground">No notifications during this window</span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={quietHoursEnabled}
+                  onChange={e =>
+                    update(e.target.checked
+                      ? { quietHoursStart: 22, quietHoursEnd: 7 }
+                      : { quietHoursStart: null, quietHoursEnd: null })
+                  }
+                  className="w-4 h-4 accent-primary"
+                />
+              </label>
+
+              {quietHoursEnabled && (
+                <div className="flex items-center gap-2 text-sm">
+                  <select
+                    value={preferences.quietHoursStart ?? 0}
+                    onChange={e => update({ quietHoursStart: Number(e.target.value) })}
+                    className="flex-1 bg-card border border-border rounded-lg px-2 py-1"
+                  >
+                    {HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                  </select>
+                  <span className="text-muted-foreground">to</span>
+                  <select
+                    value={preferences.quietHoursEnd ?? 0}
+                    onChange={e => update({ quietHoursEnd: Number(e.target.value) })}
+                    className="flex-1 bg-card border border-border rounded-lg px-2 py-1"
+                  >
+                    {HOURS.map(hour => <option key={hour} value={hour}>{formatHour(hour)}</option>)}
+                  </select>
+                </div>
+              )}
+              {quietHoursEmpty && (
+                <div className="text-xs text-red-500">Start and end must be different hours</div>
+              )}
+
+              <label className="block text-sm">
+                <span className="block text-xs text-muted-foreground mb-1">Time zone</span>
+                <input
+                  type="text"
+                  value={preferences.timeZone}
+                  onChange={e => update({ timeZone: e.target.value })}
+                  className="w-full bg-card border border-border rounded-lg px-2 py-1"
+                  placeholder="e.g. America/New_York"
+                />
+              </label>
+            </div>
+
+            {error && <div className="text-sm text-red-500 mb-3">{error}</div>}
+
+            <button
+              onClick={save}
+              disabled={saving || quietHoursEmpty}
+              className="w-full py-2 text-sm bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : saved ? 'Saved' : 'Save'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { WagmiProvider, useConnect, useAccount, useReconnect } from 'wagmi';
+import { WagmiProvider, useConnect, useAccount, useReconnect, useSignMessage } from 'wagmi';
+import { baseSepolia } from 'wagmi/chains';
+import { createSiweMessage, generateSiweNonce } from 'viem/siwe';
 import { config } from '@/lib/wagmi';
 import { useEffect, useState, useRef } from 'react';
 import sdk from '@farcaster/miniapp-sdk';
@@ -9,11 +11,15 @@ import sdk from '@farcaster/miniapp-sdk';
 // Create a React Query client for data caching
 const queryClient = new QueryClient();
 
+// How long a wallet link signature stays valid
+const WALLET_LINK_TTL_MS = 5 * 60_000;
+
 // Auto-connect component that runs inside WagmiProvider
 function AutoConnect({ children }: { children: React.ReactNode }) {
   const { connect, connectors } = useConnect();
   const { reconnect } = useReconnect();
   const { isConnected, address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const hasAttemptedRef = useRef(false);
   const hasRegisteredWalletRef = useRef(false);
 
@@ -49,7 +55,9 @@ function AutoConnect({ children }: { children: React.ReactNode }) {
     return () => clearTimeout(timer);
   }, [isConnected, connect, connectors]);
 
-  // Register wallet address with FID when connected in Mini App
+  // Register wallet address with FID when connected in Mini App.
+  // The server needs proof of both: a Quick Auth token for the FID and a
+  // SIWE signature from the wallet naming that FID.
   useEffect(() => {
     const registerWallet = async () => {
       if (!isConnected || !address || hasRegisteredWalletRef.current) {
@@ -61,14 +69,41 @@ function AutoConnect({ children }: { children: React.ReactNode }) {
         const fid = context?.user?.fid;
 
         if (fid && address) {
-          console.log(`[RegisterWallet] Registering FID ${fid} -> ${address}`);
+          // Only ask for a signature once per FID/wallet pair on this device
+          const linkedKey = `wolfgame:wallet-linked:${fid}:${address.toLowerCase()}`;
           hasRegisteredWalletRef.current = true;
+          if (localStorage.getItem(linkedKey)) {
+            return;
+          }
+
+          console.log(`[RegisterWallet] Registering FID ${fid} -> ${address}`);
+          const { token } = await sdk.quickAuth.getToken();
+
+          const issuedAt = new Date();
+          const message = createSiweMessage({
+            domain: window.location.host,
+            address,
+            statement: `Link this wallet to Farcaster FID ${fid} for Wolf Game notifications.`,
+            uri: window.location.origin,
+            version: '1',
+            chainId: baseSepolia.id,
+            nonce: generateSiweNonce(),
+            issuedAt,
+            expirationTime: new Date(issuedAt.getTime() + WALLET_LINK_TTL_MS),
+            resources: [`farcaster://fid/${fid}`],
+          });
+          const signature = await signMessageAsync({ message });
 
-          await fetch('/api/register-wallet', {
+          const response = await fetch('/api/register-wallet', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ fid, walletAddress: address }),
+            body: JSON.stringify({ token, walletAddress: address, message, signature }),
           });
+          if (response.ok) {
+            localStorage.setItem(linkedKey, '1');
+          } else {
+            console.error('[RegisterWallet] Rejected:', await response.text());
+          }
         }
       } catch (error) {
         console.error('[RegisterWallet] Error:', error);
@@ -76,7 +111,7 @@ function AutoConnect({ children }: { children: React.ReactNode }) {
     };
 
     registerWallet();
-  }, [isConnected, address]);
+  }, [isConnected, address, signMessageAsync]);
 
   return <>{children}</>;
 }
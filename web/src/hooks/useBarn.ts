@@ -4,13 +4,6 @@ import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from
 import { CONTRACTS, barnAbi, type StakeInfo } from '@/lib/contracts';
 
 // Shared query options to prevent excessive polling
-const staticQueryOptions = {
-  staleTime: Infinity, // Never consider stale (for static data)
-  refetchOnWindowFocus: false,
-  refetchOnMount: false,
-  refetchOnReconnect: false,
-};
-
 const dynamicQueryOptions = {
   staleTime: 30_000, // Consider fresh for 30 seconds
   refetchInterval: 30_000, // Poll every 30 seconds
@@ -103,7 +96,7 @@ export function useWoolClaimTaxPercentage() {
     address: CONTRACTS.barn as `0x${string}`,
     abi: barnAbi,
     functionName: 'woolClaimTaxPercentage',
-    query: staticQueryOptions,
+    query: dynamicQueryOptions, // Now configurable
   });
 }
 
@@ -113,7 +106,7 @@ export function useSheepStealChance() {
     address: CONTRACTS.barn as `0x${string}`,
     abi: barnAbi,
     functionName: 'sheepStealChance',
-    query: staticQueryOptions,
+    query: dynamicQueryOptions, // Now configurable
   });
 }
 
@@ -1,12 +1,9 @@
 import { baseSepolia } from 'wagmi/chains';
+import { deployments } from '@deployments';
 
-// Contract addresses on Base Sepolia (SheepStolen event deployment - Dec 6, 2025)
-export const CONTRACTS = {
-  wool: '0xe3DbA8DB9BD0794067E6f8069f489A6ca23Ea492',
-  traits: '0x6CB7Ac725369023079b89beb753e1afe05C9bced',
-  woolf: '0x916A56f76EC06565E0EB55720b9DAE85aE033937',
-  barn: '0x6C19CDba7402d644D728310b1A5825C96Be0519F',
-} as const;
+// Contract addresses on Base Sepolia, from the deployment manifest shared with the indexer
+const { wool, traits, woolf, barn } = deployments.baseSepolia.contracts;
+export const CONTRACTS = { wool, traits, woolf, barn } as const;
 
 export const CHAIN_ID = baseSepolia.id;
 
@@ -1,7 +1,7 @@
 /**
  * database.ts - PostgreSQL connection for Wolf Game
  *
- * Stores user FID <-> wallet mappings and notification tokens.
+ * Stores users (by FID), their linked wallets and notification tokens.
  */
 import { Pool, PoolClient } from 'pg';
 
@@ -74,7 +74,6 @@ export async function transaction<T>(callback: (client: PoolClient) => Promise<T
 export interface User {
   id: number;
   fid: number;
-  wallet_address: string | null;
   notifications_enabled: boolean;
   created_at: string;
   updated_at: string;
@@ -85,7 +84,7 @@ export interface User {
  */
 export async function getUserByFid(fid: number): Promise<User | null> {
   const result = await query(
-    `SELECT id, fid, wallet_address, notifications_enabled, created_at, updated_at
+    `SELECT id, fid, notifications_enabled, created_at, updated_at
      FROM users
      WHERE fid = $1`,
     [fid]
@@ -94,36 +93,97 @@ export async function getUserByFid(fid: number): Promise<User | null> {
 }
 
 /**
- * Get user by wallet address.
+ * Create a user if the FID is new.
  */
-export async function getUserByWallet(walletAddress: string): Promise<User | null> {
+export async function upsertUser(userData: { fid: number }): Promise<User> {
   const result = await query(
-    `SELECT id, fid, wallet_address, notifications_enabled, created_at, updated_at
-     FROM users
-     WHERE LOWER(wallet_address) = LOWER($1)`,
-    [walletAddress]
+    `INSERT INTO users (fid, created_at, updated_at)
+     VALUES ($1, NOW(), NOW())
+     ON CONFLICT (fid) DO UPDATE SET updated_at = NOW()
+     RETURNING id, fid, notifications_enabled, created_at, updated_at`,
+    [userData.fid]
   );
-  return result.rows[0] || null;
+
+  return result.rows[0];
+}
+
+// ======================
+// Wallet Operations
+// ======================
+
+export interface UserWallet {
+  id: number;
+  user_id: number;
+  wallet_address: string;
+  verified: boolean;
+  verified_at: string | null;
+  is_primary: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
 /**
- * Create or update a user.
+ * Get all wallets linked to a user, primary first.
  */
-export async function upsertUser(userData: {
-  fid: number;
-  wallet_address?: string;
-}): Promise<User> {
+export async function getWalletsForUser(userId: number): Promise<UserWallet[]> {
   const result = await query(
-    `INSERT INTO users (fid, wallet_address, created_at, updated_at)
-     VALUES ($1, $2, NOW(), NOW())
-     ON CONFLICT (fid) DO UPDATE SET
-       wallet_address = COALESCE(EXCLUDED.wallet_address, users.wallet_address),
-       updated_at = NOW()
-     RETURNING *`,
-    [userData.fid, userData.wallet_address || null]
+    `SELECT * FROM user_wallets
+     WHERE user_id = $1
+     ORDER BY is_primary DESC, created_at ASC`,
+    [userId]
   );
+  return result.rows;
+}
 
-  return result.rows[0];
+/**
+ * Link a wallet to a user. Verification is never downgraded by a later
+ * unverified link. The first wallet a user links becomes their primary.
+ */
+export async function linkWallet(userId: number, walletAddress: string, verified: boolean): Promise<void> {
+  await transaction(async (client) => {
+    // Serialize links for this user so only one wallet can claim primary
+    await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    await client.query(
+      `INSERT INTO user_wallets (user_id, wallet_address, verified, verified_at, is_primary, created_at, updated_at)
+       VALUES ($1, LOWER($2), $3, CASE WHEN $3 THEN NOW() END,
+               NOT EXISTS (SELECT 1 FROM user_wallets WHERE user_id = $1 AND is_primary), NOW(), NOW())
+       ON CONFLICT (user_id, wallet_address) DO UPDATE SET
+         verified = user_wallets.verified OR EXCLUDED.verified,
+         verified_at = COALESCE(user_wallets.verified_at, EXCLUDED.verified_at),
+         updated_at = NOW()`,
+      [userId, walletAddress, verified]
+    );
+  });
+}
+
+/**
+ * Unlink a wallet from a user. If it was the primary, the oldest remaining
+ * wallet (verified ones first) takes over. Returns false if it wasn't linked.
+ */
+export async function unlinkWallet(userId: number, walletAddress: string): Promise<boolean> {
+  return transaction(async (client) => {
+    await client.query('SELECT id FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    const deleted = await client.query(
+      `DELETE FROM user_wallets WHERE user_id = $1 AND wallet_address = LOWER($2) RETURNING is_primary`,
+      [userId, walletAddress]
+    );
+    if (deleted.rows.length === 0) {
+      return false;
+    }
+
+    if (deleted.rows[0].is_primary) {
+      await client.query(
+        `UPDATE user_wallets SET is_primary = TRUE, updated_at = NOW()
+         WHERE id = (
+           SELECT id FROM user_wallets WHERE user_id = $1
+           ORDER BY verified DESC, created_at ASC
+           LIMIT 1
+         )`,
+        [userId]
+      );
+    }
+    return true;
+  });
 }
 
 /**
@@ -164,14 +224,28 @@ export async function getTokensByFid(fid: number): Promise<NotificationToken[]>
 }
 
 /**
- * Get notification tokens for a user by wallet address.
- * Looks up user by wallet, then gets their tokens.
+ * Get notification tokens for every user that has verified a wallet address.
+ *
+ * Until the legacy cut-over (see docs/CHANGELOG.md), a wallet carried over
+ * from users.wallet_address also counts while it is still linked, unless
+ * another user has since verified it.
  */
 export async function getTokensByWallet(walletAddress: string): Promise<NotificationToken[]> {
   const result = await query(
-    `SELECT nt.* FROM notification_tokens nt
+    `SELECT DISTINCT nt.* FROM notification_tokens nt
      JOIN users u ON nt.user_id = u.id
-     WHERE LOWER(u.wallet_address) = LOWER($1)
+     JOIN user_wallets uw ON uw.user_id = u.id
+     WHERE uw.wallet_address = LOWER($1)
+       AND (
+         uw.verified = TRUE
+         OR (
+           uw.wallet_address = LOWER(u.wallet_address)
+           AND NOT EXISTS (
+             SELECT 1 FROM user_wallets other
+             WHERE other.wallet_address = uw.wallet_address AND other.verified = TRUE
+           )
+         )
+       )
        AND nt.enabled = TRUE
        AND u.notifications_enabled = TRUE`,
     [walletAddress]
@@ -223,6 +297,107 @@ export async function setUserNotificationsEnabled(userId: number, enabled: boole
   );
 }
 
+// ======================
+// Notification Preference Operations
+// ======================
+
+export interface NotificationPreferences {
+  steal_unstake: boolean;
+  steal_mint: boolean;
+  sheep_unlocked: boolean;
+  claim_reminders: boolean;
+  tax_digest: boolean;
+  quiet_hours_start: number | null; // Local hour 0-23; null = no quiet hours
+  quiet_hours_end: number | null; // Local hour 0-23, exclusive
+  time_zone: string; // IANA time zone name
+}
+
+// Matches the column defaults in schema.sql
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  steal_unstake: true,
+  steal_mint: true,
+  sheep_unlocked: true,
+  claim_reminders: false,
+  tax_digest: false,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  time_zone: 'UTC',
+};
+
+const PREFERENCE_COLUMNS = Object.keys(DEFAULT_NOTIFICATION_PREFERENCES) as (keyof NotificationPreferences)[];
+
+/**
+ * Get a user's notification preferences (defaults if they never saved any).
+ */
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+  const result = await query(
+    `SELECT ${PREFERENCE_COLUMNS.join(', ')} FROM notification_preferences WHERE user_id = $1`,
+    [userId]
+  );
+  return result.rows[0] || { ...DEFAULT_NOTIFICATION_PREFERENCES };
+}
+
+/**
+ * Save a user's notification preferences. Fields not given keep their current values.
+ */
+export async function updateNotificationPreferences(
+  userId: number,
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+  const preferences = { ...(await getNotificationPreferences(userId)), ...changes };
+  const values = PREFERENCE_COLUMNS.map(column => preferences[column]);
+  const result = await query(
+    `INSERT INTO notification_preferences (user_id, ${PREFERENCE_COLUMNS.join(', ')}, updated_at)
+     VALUES ($1, ${PREFERENCE_COLUMNS.map((_, i) => `$${i + 2}`).join(', ')}, NOW())
+     ON CONFLICT (user_id) DO UPDATE SET
+       ${PREFERENCE_COLUMNS.map(column => `${column} = EXCLUDED.${column}`).join(', ')},
+       updated_at = NOW()
+     RETURNING ${PREFERENCE_COLUMNS.join(', ')}`,
+    [userId, ...values]
+  );
+  return result.rows[0];
+}
+
+// ======================
+// Indexer Request Operations
+// ======================
+
+/**
+ * Record a signed indexer request's signature until it expires.
+ * Returns false if the signature was already recorded (a replay).
+ */
+export async function recordIndexerSignature(signature: string, expiresAt: Date): Promise<boolean> {
+  await query(`DELETE FROM indexer_request_signatures WHERE expires_at < NOW()`);
+  const result = await query(
+    `INSERT INTO indexer_request_signatures (signature, expires_at)
+     VALUES ($1, $2)
+     ON CONFLICT (signature) DO NOTHING
+     RETURNING signature`,
+    [signature, expiresAt]
+  );
+  return result.rows.length > 0;
+}
+
+// ======================
+// Wallet Link Operations
+// ======================
+
+/**
+ * Record a wallet-link SIWE nonce until its message expires.
+ * Returns false if the nonce was already recorded (a replay).
+ */
+export async function recordWalletLinkNonce(nonce: string, expiresAt: Date): Promise<boolean> {
+  await query(`DELETE FROM wallet_link_nonces WHERE expires_at < NOW()`);
+  const result = await query(
+    `INSERT INTO wallet_link_nonces (nonce, expires_at)
+     VALUES ($1, $2)
+     ON CONFLICT (nonce) DO NOTHING
+     RETURNING nonce`,
+    [nonce, expiresAt]
+  );
+  return result.rows.length > 0;
+}
+
 /**
  * Close the database pool (call on app shutdown).
  */
@@ -0,0 +1,99 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { verifyJsonFarcasterSignature, type KeyRegistry } from './farcasterSignature';
+
+const FID = 1234;
+
+function appKey() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const { x } = publicKey.export({ format: 'jwk' });
+  return { privateKey, key: `0x${Buffer.from(x!, 'base64url').toString('hex')}` as `0x${string}` };
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// A JSON Farcaster Signature over `payload`, as a Mini App client sends it
+function signMessage(
+  signer: ReturnType<typeof appKey>,
+  header: Record<string, unknown> = { fid: FID, type: 'app_key', key: signer.key },
+  payload: unknown = { event: 'notifications_enabled' }
+) {
+  const encodedHeader = encode(header);
+  const encodedPayload = encode(payload);
+  const signature = sign(null, Buffer.from(`${encodedHeader}.${encodedPayload}`), signer.privateKey);
+  return { header: encodedHeader, payload: encodedPayload, signature: signature.toString('base64url') };
+}
+
+// Stand-in KeyRegistry with a fixed set of active (fid, key) pairs
+function registry(active: [number, string][]): KeyRegistry & { lookups: number } {
+  const stub = {
+    lookups: 0,
+    async isActiveAppKey(fid: number, key: `0x${string}`) {
+      stub.lookups++;
+      return active.some(([activeFid, activeKey]) => activeFid === fid && activeKey.toLowerCase() === key);
+    },
+  };
+  return stub;
+}
+
+describe('verifyJsonFarcasterSignature', () => {
+  it('accepts a message signed by an active app key', async () => {
+    const signer = appKey();
+    const result = await verifyJsonFarcasterSignature(signMessage(signer), registry([[FID, signer.key]]));
+    expect(result).toEqual({
+      valid: true,
+      fid: FID,
+      key: signer.key,
+      payload: { event: 'notifications_enabled' },
+    });
+  });
+
+  it('rejects a payload changed after signing', async () => {
+    const signer = appKey();
+    const message = { ...signMessage(signer), payload: encode({ event: 'miniapp_removed' }) };
+    const keys = registry([[FID, signer.key]]);
+    expect(await verifyJsonFarcasterSignature(message, keys)).toEqual({ valid: false, reason: 'Invalid signature' });
+    expect(keys.lookups).toBe(0);
+  });
+
+  it('rejects a signature from a different key than the header names', async () => {
+    const signer = appKey();
+    const other = appKey();
+    const message = signMessage(other, { fid: FID, type: 'app_key', key: signer.key });
+    const result = await verifyJsonFarcasterSignature(message, registry([[FID, signer.key]]));
+    expect(result).toEqual({ valid: false, reason: 'Invalid signature' });
+  });
+
+  it('rejects a valid signature from a key that is not active for the fid', async () => {
+    const signer = appKey();
+    const result = await verifyJsonFarcasterSignature(signMessage(signer), registry([[FID + 1, signer.key]]));
+    expect(result).toEqual({ valid: false, reason: 'Key is not an active app key for this fid' });
+  });
+
+  it('rejects signers other than app keys', async () => {
+    const signer = appKey();
+    const message = signMessage(signer, { fid: FID, type: 'custody', key: signer.key });
+    const result = await verifyJsonFarcasterSignature(message, registry([[FID, signer.key]]));
+    expect(result).toEqual({ valid: false, reason: 'Signer must be an app key' });
+  });
+
+  it('rejects a header without a usable fid or key', async () => {
+    const signer = appKey();
+    const keys = registry([[FID, signer.key]]);
+    expect(
+      await verifyJsonFarcasterSignature(signMessage(signer, { fid: '1234', type: 'app_key', key: signer.key }), keys)
+    ).toEqual({ valid: false, reason: 'Invalid fid' });
+    expect(
+      await verifyJsonFarcasterSignature(signMessage(signer, { fid: FID, type: 'app_key', key: '0x1234' }), keys)
+    ).toEqual({ valid: false, reason: 'Invalid key' });
+  });
+
+  it('rejects a header that is not base64url JSON', async () => {
+    const signer = appKey();
+    const message = { ...signMessage(signer), header: 'not-json' };
+    const result = await verifyJsonFarcasterSignature(message, registry([[FID, signer.key]]));
+    expect(result).toEqual({ valid: false, reason: 'Malformed header or payload' });
+  });
+});
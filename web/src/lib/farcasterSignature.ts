@@ -0,0 +1,124 @@
+/**
+ * JSON Farcaster Signature verification
+ *
+ * Mini app webhooks arrive as { header, payload, signature }, each base64url.
+ * The header names the FID and the ed25519 app key that signed
+ * "<header>.<payload>". A message is only trusted when the signature checks
+ * out AND the key is an active app key for that FID.
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { createPublicClient, http } from 'viem';
+import { optimism } from 'viem/chains';
+
+export interface JsonFarcasterSignature {
+  header: string;
+  payload: string;
+  signature: string;
+}
+
+/**
+ * Answers whether an ed25519 key is currently an active app key for an FID.
+ * Callers pass one in, so local development and tests can use a stand-in.
+ */
+export interface KeyRegistry {
+  isActiveAppKey(fid: number, key: `0x${string}`): Promise<boolean>;
+}
+
+// Farcaster KeyRegistry on OP Mainnet
+const KEY_REGISTRY_ADDRESS = '0x00000000Fc1237824fb747aBDE0FF18990E59b7e';
+const keyRegistryAbi = [
+  {
+    type: 'function',
+    name: 'keyDataOf',
+    inputs: [{ name: 'fid', type: 'uint256' }, { name: 'key', type: 'bytes' }],
+    outputs: [{
+      type: 'tuple',
+      components: [
+        { name: 'state', type: 'uint8' },
+        { name: 'keyType', type: 'uint32' },
+      ],
+    }],
+    stateMutability: 'view',
+  },
+] as const;
+const KEY_STATE_ADDED = 1;
+const KEY_TYPE_ED25519 = 1;
+
+/**
+ * Reads the KeyRegistry contract directly (OPTIMISM_RPC_URL, or the public endpoint)
+ */
+export function onchainKeyRegistry(rpcUrl = process.env.OPTIMISM_RPC_URL): KeyRegistry {
+  const client = createPublicClient({ chain: optimism, transport: http(rpcUrl) });
+  return {
+    async isActiveAppKey(fid, key) {
+      const keyData = await client.readContract({
+        address: KEY_REGISTRY_ADDRESS,
+        abi: keyRegistryAbi,
+        functionName: 'keyDataOf',
+        args: [BigInt(fid), key],
+      });
+      return keyData.state === KEY_STATE_ADDED && keyData.keyType === KEY_TYPE_ED25519;
+    },
+  };
+}
+
+function decodeBase64Url(str: string): Buffer {
+  return Buffer.from(str.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+export type VerifyResult =
+  | { valid: true; fid: number; key: `0x${string}`; payload: unknown }
+  | { valid: false; reason: string };
+
+/**
+ * Verify a JSON Farcaster Signature and return the signer and decoded payload
+ */
+export async function verifyJsonFarcasterSignature(
+  message: JsonFarcasterSignature,
+  registry: KeyRegistry
+): Promise<VerifyResult> {
+  let header: { fid?: unknown; type?: unknown; key?: unknown };
+  let payload: unknown;
+  try {
+    header = JSON.parse(decodeBase64Url(message.header).toString('utf-8'));
+    payload = JSON.parse(decodeBase64Url(message.payload).toString('utf-8'));
+  } catch {
+    return { valid: false, reason: 'Malformed header or payload' };
+  }
+
+  const { fid, type, key } = header;
+  if (typeof fid !== 'number' || !Number.isInteger(fid) || fid <= 0) {
+    return { valid: false, reason: 'Invalid fid' };
+  }
+  if (type !== 'app_key') {
+    return { valid: false, reason: 'Signer must be an app key' };
+  }
+  if (typeof key !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(key)) {
+    return { valid: false, reason: 'Invalid key' };
+  }
+
+  // ed25519 over the still-encoded "<header>.<payload>"
+  const signedData = Buffer.from(`${message.header}.${message.payload}`);
+  const signature = decodeBase64Url(message.signature);
+  let signatureValid = false;
+  try {
+    const publicKey = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(key.slice(2), 'hex').toString('base64url') },
+      format: 'jwk',
+    });
+    signatureValid = signature.length === 64 && verify(null, signedData, publicKey, signature);
+  } catch {
+    // Not a usable ed25519 public key
+  }
+  if (!signatureValid) {
+    return { valid: false, reason: 'Invalid signature' };
+  }
+
+  const appKey = key.toLowerCase() as `0x${string}`;
+  if (!(await registry.isActiveAppKey(fid, appKey))) {
+    return { valid: false, reason: 'Key is not an active app key for this fid' };
+  }
+
+  return { valid: true, fid, key: appKey, payload };
+}
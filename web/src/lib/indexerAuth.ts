@@ -0,0 +1,53 @@
+/**
+ * Indexer -> web request signing
+ *
+ * The indexer signs each call with HMAC-SHA256 over "<timestamp>.<raw body>"
+ * using NOTIFY_SIGNING_SECRET, sending X-Wolfgame-Timestamp and
+ * X-Wolfgame-Signature. Requests outside the replay window, or seen before
+ * within it, are rejected. Seen signatures are kept in Postgres, so replays
+ * are caught across restarts and serverless instances.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { recordIndexerSignature } from './database';
+
+// How far a request's timestamp may drift from our clock
+const REPLAY_WINDOW_SECONDS = 300;
+
+export type IndexerAuthResult =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+export async function verifyIndexerRequest(
+  body: string,
+  timestampHeader: string | null,
+  signatureHeader: string | null
+): Promise<IndexerAuthResult> {
+  const secret = process.env.NOTIFY_SIGNING_SECRET;
+  if (!secret) {
+    return { valid: false, reason: 'NOTIFY_SIGNING_SECRET is not configured' };
+  }
+  if (!timestampHeader || !signatureHeader || !/^\d+$/.test(timestampHeader)) {
+    return { valid: false, reason: 'Missing signature headers' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > REPLAY_WINDOW_SECONDS) {
+    return { valid: false, reason: 'Request timestamp outside replay window' };
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest();
+  const provided = Buffer.from(signatureHeader, 'hex');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return { valid: false, reason: 'Invalid signature' };
+  }
+
+  // Remember the signature until its timestamp leaves the window, rejecting repeats
+  const expiresAt = new Date((timestamp + REPLAY_WINDOW_SECONDS) * 1000);
+  if (!(await recordIndexerSignature(expected.toString('hex'), expiresAt))) {
+    return { valid: false, reason: 'Request already processed' };
+  }
+
+  return { valid: true };
+}
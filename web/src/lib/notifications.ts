@@ -3,11 +3,26 @@
  *
  * Send push notifications when wolves steal sheep/mints.
  * Rate limits: 1 per 30 seconds per token, 100 daily per token
+ *
+ * Every notification has a category, and is only sent to users whose
+ * preferences allow that category and who are outside their quiet hours.
  */
 
-import { query, getTokensByWallet } from './database';
+import {
+  query,
+  getTokensByWallet,
+  getNotificationPreferences,
+  type NotificationPreferences,
+} from './database';
+
+// Kinds of notification a user can switch on or off (preference columns)
+export type NotificationCategory = keyof Pick<
+  NotificationPreferences,
+  'steal_unstake' | 'steal_mint' | 'sheep_unlocked' | 'claim_reminders' | 'tax_digest'
+>;
 
 interface NotificationPayload {
+  category: NotificationCategory;
   tokens: string[];
   notificationId: string;  // Stable ID to prevent duplicates
   title: string;
@@ -15,27 +30,72 @@ interface NotificationPayload {
   targetUrl: string;
 }
 
+/**
+ * Whether `now` falls inside the user's quiet hours, in their time zone.
+ * The window may wrap past midnight (e.g. 22 -> 7). The API rejects
+ * start === end; any such row saved earlier means no quiet hours.
+ */
+export function isQuietHour(preferences: NotificationPreferences, now: Date = new Date()): boolean {
+  const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+  if (start === null || end === null || start === end) return false;
+
+  let hour: number;
+  try {
+    hour = Number(
+      new Intl.DateTimeFormat('en-US', { timeZone: preferences.time_zone, hour: 'numeric', hourCycle: 'h23' })
+        .format(now)
+    );
+  } catch {
+    hour = now.getUTCHours(); // Unknown time zone
+  }
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Whether a user's preferences allow a notification of this category right now
+ */
+export function allowsNotification(
+  preferences: NotificationPreferences,
+  category: NotificationCategory,
+  now: Date = new Date()
+): boolean {
+  return preferences[category] && !isQuietHour(preferences, now);
+}
+
 /**
  * Send push notifications to users.
  * Batches support up to 100 tokens per request.
+ * Returns how many tokens passed their owner's preferences.
  */
-export async function sendPushNotification(payload: NotificationPayload): Promise<void> {
+export async function sendPushNotification(payload: NotificationPayload): Promise<number> {
   if (payload.tokens.length === 0) {
     console.log('[Notifications] No tokens to send to');
-    return;
+    return 0;
   }
 
-  // Group tokens by notification URL
+  // Group tokens by notification URL, skipping users who opted out
   const tokensByUrl: Record<string, string[]> = {};
+  const preferencesByUser = new Map<number, NotificationPreferences>();
+  let allowed = 0;
 
   for (const token of payload.tokens) {
     const result = await query(
-      'SELECT url FROM notification_tokens WHERE token = $1 AND enabled = TRUE LIMIT 1',
+      'SELECT url, user_id FROM notification_tokens WHERE token = $1 AND enabled = TRUE LIMIT 1',
       [token]
     );
 
     if (result.rows.length > 0) {
-      const url = result.rows[0].url;
+      const { url, user_id: userId } = result.rows[0];
+      let preferences = preferencesByUser.get(userId);
+      if (!preferences) {
+        preferences = await getNotificationPreferences(userId);
+        preferencesByUser.set(userId, preferences);
+      }
+      if (!allowsNotification(preferences, payload.category)) {
+        continue;
+      }
+      allowed++;
+
       if (!tokensByUrl[url]) {
         tokensByUrl[url] = [];
       }
@@ -74,12 +134,16 @@ export async function sendPushNotification(payload: NotificationPayload): Promis
       }
     }
   }
+
+  return allowed;
 }
 
 /**
  * Send notification when wolf steals a sheep during unstake or mint.
+ * notificationId comes from the indexer and is stable per steal event.
  */
 export async function sendWolfStealNotification(
+  notificationId: string,
   wolfOwnerWallet: string,
   stolenTokenId: number,
   eventType: 'unstake' | 'mint'
@@ -94,7 +158,6 @@ export async function sendWolfStealNotification(
     }
 
     const tokenStrings = tokens.map(t => t.token);
-    const timestamp = Date.now();
 
     // Create notification based on event type
     const title = eventType === 'unstake'
@@ -108,14 +171,20 @@ export async function sendWolfStealNotification(
     // Base URL - will be configured via env var in production
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
-    await sendPushNotification({
+    const allowed = await sendPushNotification({
+      category: eventType === 'unstake' ? 'steal_unstake' : 'steal_mint',
       tokens: tokenStrings,
-      notificationId: `wolf-steal-${eventType}-${stolenTokenId}-${timestamp}`,
+      notificationId,
       title,
       body,
       targetUrl: baseUrl,
     });
 
+    if (allowed === 0) {
+      console.log(`[Notifications] Wolf steal notification for token #${stolenTokenId} muted by preferences`);
+      return { sent: false, reason: 'preferences' };
+    }
+
     console.log(`[Notifications] Sent wolf steal notification for token #${stolenTokenId} (${eventType})`);
     return { sent: true };
 
@@ -0,0 +1,199 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { verifyMessage, type Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { baseSepolia, mainnet } from 'viem/chains';
+import { createSiweMessage, generateSiweNonce } from 'viem/siwe';
+import { describe, expect, it } from 'vitest';
+import {
+  defaultWalletLinkVerifier,
+  verifyQuickAuthToken,
+  verifyWalletLink,
+  type Jwk,
+  type WalletLinkVerifier,
+} from './walletAuth';
+
+// Matches NEXT_PUBLIC_APP_URL in vitest.config.ts
+const DOMAIN = 'wolfgame.test';
+const FID = 1234;
+const QUICK_AUTH_ORIGIN = 'https://auth.farcaster.xyz';
+
+describe('Quick Auth tokens', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const jwk: Jwk = { ...publicKey.export({ format: 'jwk' }), kty: 'OKP', kid: 'test-key' };
+  const verifier = defaultWalletLinkVerifier(async () => [jwk]);
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  function issue(
+    claims: Record<string, unknown> = {},
+    { kid = 'test-key', key = privateKey } = {}
+  ): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({
+      iss: QUICK_AUTH_ORIGIN,
+      aud: DOMAIN,
+      sub: FID,
+      iat: now(),
+      exp: now() + 300,
+      ...claims,
+    })).toString('base64url');
+    const signature = sign(null, Buffer.from(`${header}.${payload}`), key).toString('base64url');
+    return `${header}.${payload}.${signature}`;
+  }
+
+  it('returns the fid of a valid token', async () => {
+    expect(await verifyQuickAuthToken(issue(), verifier)).toBe(FID);
+  });
+
+  it('rejects a token issued for another domain', async () => {
+    expect(await verifyQuickAuthToken(issue({ aud: 'evil.example' }), verifier)).toBeNull();
+  });
+
+  it('rejects an expired token', async () => {
+    expect(await verifyQuickAuthToken(issue({ exp: now() - 60 }), verifier)).toBeNull();
+  });
+
+  it('rejects a token without an expiry', async () => {
+    expect(await verifyQuickAuthToken(issue({ exp: undefined }), verifier)).toBeNull();
+  });
+
+  it('rejects a token from another issuer', async () => {
+    expect(await verifyQuickAuthToken(issue({ iss: 'https://auth.evil.example' }), verifier)).toBeNull();
+  });
+
+  it('rejects a token signed by an unpublished key', async () => {
+    const other = generateKeyPairSync('ed25519').privateKey;
+    expect(await verifyQuickAuthToken(issue({}, { key: other }), verifier)).toBeNull();
+    expect(await verifyQuickAuthToken(issue({}, { kid: 'unknown' }), verifier)).toBeNull();
+  });
+
+  it('rejects a token whose claims were changed after signing', async () => {
+    const [header, , signature] = issue().split('.');
+    const forged = Buffer.from(JSON.stringify({
+      iss: QUICK_AUTH_ORIGIN,
+      aud: DOMAIN,
+      sub: FID + 1,
+      exp: now() + 300,
+    })).toString('base64url');
+    expect(await verifyQuickAuthToken(`${header}.${forged}.${signature}`, verifier)).toBeNull();
+  });
+});
+
+describe('verifyWalletLink', () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+
+  // Quick Auth always says FID; wallet signatures are checked for real (EOA, offline)
+  const usedNonces = new Set<string>();
+  const verifier: WalletLinkVerifier = {
+    async verifyFidToken(token, domain) {
+      return token === 'valid-token' && domain === DOMAIN ? FID : null;
+    },
+    async verifyWalletSignature(address, message, signature) {
+      return verifyMessage({ address, message, signature });
+    },
+    async consumeNonce(nonce) {
+      if (usedNonces.has(nonce)) return false;
+      usedNonces.add(nonce);
+      return true;
+    },
+  };
+
+  function siweMessage(overrides: Partial<Parameters<typeof createSiweMessage>[0]> = {}): string {
+    return createSiweMessage({
+      address: account.address,
+      chainId: baseSepolia.id,
+      domain: DOMAIN,
+      uri: `https://${DOMAIN}`,
+      version: '1',
+      nonce: generateSiweNonce(),
+      issuedAt: new Date(),
+      expirationTime: new Date(Date.now() + 10 * 60_000),
+      resources: [`farcaster://fid/${FID}`],
+      ...overrides,
+    });
+  }
+
+  async function link(message: string, { signer = account, token = 'valid-token' } = {}) {
+    const signature: Hex = await signer.signMessage({ message });
+    return verifyWalletLink({ token, walletAddress: account.address, message, signature }, verifier);
+  }
+
+  const mismatch = { valid: false, reason: 'Wallet message does not match this link request' };
+
+  it('links a wallet that signed a message for this app, chain and fid', async () => {
+    expect(await link(siweMessage())).toEqual({ valid: true, fid: FID, walletAddress: account.address });
+  });
+
+  it('rejects an invalid Farcaster credential', async () => {
+    expect(await link(siweMessage(), { token: 'bad-token' })).toEqual({
+      valid: false,
+      reason: 'Invalid Farcaster credential',
+    });
+  });
+
+  it('rejects a message for another domain', async () => {
+    expect(await link(siweMessage({ domain: 'evil.example' }))).toEqual(mismatch);
+  });
+
+  it('rejects a message for another chain', async () => {
+    expect(await link(siweMessage({ chainId: mainnet.id }))).toEqual(mismatch);
+  });
+
+  it('rejects a message that does not name the fid', async () => {
+    expect(await link(siweMessage({ resources: [`farcaster://fid/${FID + 1}`] }))).toEqual(mismatch);
+    expect(await link(siweMessage({ resources: undefined }))).toEqual(mismatch);
+  });
+
+  it('rejects a message for another wallet', async () => {
+    const other = privateKeyToAccount(generatePrivateKey());
+    expect(await link(siweMessage({ address: other.address }), { signer: other })).toEqual(mismatch);
+  });
+
+  it('rejects a message without an expiry, or past it', async () => {
+    expect(await link(siweMessage({ expirationTime: undefined }))).toEqual(mismatch);
+    expect(await link(siweMessage({ expirationTime: new Date(Date.now() - 60_000) }))).toEqual(mismatch);
+  });
+
+  it('rejects a message valid for longer than ten minutes', async () => {
+    const farFuture = new Date(Date.now() + 365 * 24 * 60 * 60_000);
+    expect(await link(siweMessage({ expirationTime: farFuture }))).toEqual(mismatch);
+    const justOver = new Date(Date.now() + 11 * 60_000);
+    expect(await link(siweMessage({ expirationTime: justOver }))).toEqual(mismatch);
+  });
+
+  it('rejects a message issued in the future', async () => {
+    const issuedAt = new Date(Date.now() + 60_000);
+    const expirationTime = new Date(issuedAt.getTime() + 5 * 60_000);
+    expect(await link(siweMessage({ issuedAt, expirationTime }))).toEqual(mismatch);
+  });
+
+  it('rejects a replayed message', async () => {
+    const message = siweMessage();
+    const signature = await account.signMessage({ message });
+    const request = { token: 'valid-token', walletAddress: account.address, message, signature };
+    expect(await verifyWalletLink(request, verifier)).toEqual({
+      valid: true,
+      fid: FID,
+      walletAddress: account.address,
+    });
+    expect(await verifyWalletLink(request, verifier)).toEqual({
+      valid: false,
+      reason: 'Wallet message was already used',
+    });
+  });
+
+  it('does not use up a nonce on a bad signature', async () => {
+    const message = siweMessage();
+    const other = privateKeyToAccount(generatePrivateKey());
+    expect((await link(message, { signer: other })).valid).toBe(false);
+    expect((await link(message)).valid).toBe(true);
+  });
+
+  it('rejects a signature from another wallet', async () => {
+    const other = privateKeyToAccount(generatePrivateKey());
+    expect(await link(siweMessage(), { signer: other })).toEqual({
+      valid: false,
+      reason: 'Invalid wallet signature',
+    });
+  });
+});
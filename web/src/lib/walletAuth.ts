@@ -0,0 +1,190 @@
+/**
+ * Wallet <-> FID link proofs for /api/register-wallet
+ *
+ * A link needs two credentials:
+ * - a Farcaster Quick Auth JWT, proving the caller controls the FID
+ * - a SIWE (EIP-4361) message signed by the wallet, naming that FID in its
+ *   resources (farcaster://fid/<fid>), proving the caller controls the wallet
+ *
+ * Both checks sit behind WalletLinkVerifier, which callers pass in, so tests
+ * and local development can use stand-ins.
+ *
+ * The SIWE nonce is chosen by the client, not issued by us. Instead, a message
+ * may be valid for at most WALLET_LINK_MAX_TTL_MS from its issuedAt, and its
+ * nonce is consumed on first use (kept in Postgres until the message expires),
+ * so a captured message can't be replayed, even within its lifetime.
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { createPublicClient, http, type Hex } from 'viem';
+import { baseSepolia } from 'viem/chains';
+import { parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import { recordWalletLinkNonce } from './database';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://wolfgameonbase.vercel.app';
+const APP_DOMAIN = new URL(APP_URL).host;
+
+// Public Quick Auth server used by the Mini App SDK
+const QUICK_AUTH_ORIGIN = 'https://auth.farcaster.xyz';
+
+// Longest a signed wallet-link message may stay valid (issuedAt -> expirationTime)
+const WALLET_LINK_MAX_TTL_MS = 10 * 60_000;
+
+export interface WalletLinkVerifier {
+  // FID the token was issued to, or null if it is invalid for our domain
+  verifyFidToken(token: string, domain: string): Promise<number | null>;
+  // Whether `address` signed `message` (EOA or smart contract wallet)
+  verifyWalletSignature(address: `0x${string}`, message: string, signature: Hex): Promise<boolean>;
+  // Mark a SIWE nonce used until `expiresAt`; false if it was already used
+  consumeNonce(nonce: string, expiresAt: Date): Promise<boolean>;
+}
+
+export interface Jwk {
+  kid?: string;
+  kty: string;
+  crv?: string;
+  x?: string;
+}
+
+const JWKS_TTL_MS = 60 * 60_000;
+
+/**
+ * The Quick Auth server's published signing keys, refetched hourly
+ */
+function quickAuthKeys(): () => Promise<Jwk[]> {
+  let cached: { keys: Jwk[]; fetchedAt: number } | null = null;
+  return async () => {
+    if (cached && Date.now() - cached.fetchedAt < JWKS_TTL_MS) {
+      return cached.keys;
+    }
+    const response = await fetch(`${QUICK_AUTH_ORIGIN}/.well-known/jwks.json`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Quick Auth keys: ${response.status}`);
+    }
+    const { keys }: { keys: Jwk[] } = await response.json();
+    cached = { keys, fetchedAt: Date.now() };
+    return keys;
+  };
+}
+
+/**
+ * Verifies Quick Auth JWTs (EdDSA) against the Farcaster Quick Auth server's
+ * published keys (or `getKeys`), and wallet signatures with viem on Base Sepolia.
+ * Used nonces are recorded in Postgres.
+ */
+export function defaultWalletLinkVerifier(
+  getKeys: () => Promise<Jwk[]> = quickAuthKeys()
+): WalletLinkVerifier {
+  const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL || 'https://sepolia.base.org';
+  const client = createPublicClient({ chain: baseSepolia, transport: http(rpcUrl) });
+
+  return {
+    async verifyFidToken(token, domain) {
+      const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+      if (!encodedHeader || !encodedPayload || !encodedSignature) return null;
+
+      let header: { alg?: string; kid?: string };
+      let claims: { iss?: string; aud?: string; sub?: unknown; exp?: number };
+      try {
+        header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+        claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+      } catch {
+        return null;
+      }
+      if (header.alg !== 'EdDSA') return null;
+
+      const keys = await getKeys();
+      const jwk = keys.find(key => key.kid === header.kid);
+      if (!jwk || jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || !jwk.x) return null;
+
+      const publicKey = createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: jwk.x }, format: 'jwk' });
+      const signatureValid = verify(
+        null,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        publicKey,
+        Buffer.from(encodedSignature, 'base64url')
+      );
+      if (!signatureValid) return null;
+
+      const now = Math.floor(Date.now() / 1000);
+      if (claims.iss !== QUICK_AUTH_ORIGIN || claims.aud !== domain) return null;
+      if (typeof claims.exp !== 'number' || claims.exp < now) return null;
+
+      const fid = Number(claims.sub);
+      return Number.isInteger(fid) && fid > 0 ? fid : null;
+    },
+
+    async verifyWalletSignature(address, message, signature) {
+      return client.verifySiweMessage({ address, message, signature });
+    },
+
+    consumeNonce: recordWalletLinkNonce,
+  };
+}
+
+/**
+ * FID for a Quick Auth token (e.g. from an Authorization: Bearer header), or null
+ */
+export async function verifyQuickAuthToken(
+  token: string,
+  verifier: WalletLinkVerifier
+): Promise<number | null> {
+  return verifier.verifyFidToken(token, APP_DOMAIN);
+}
+
+/**
+ * Resource a wallet-link SIWE message must list for the FID it links to
+ */
+function fidResource(fid: number): string {
+  return `farcaster://fid/${fid}`;
+}
+
+export type WalletLinkResult =
+  | { valid: true; fid: number; walletAddress: `0x${string}` }
+  | { valid: false; reason: string };
+
+/**
+ * Check a wallet link request: the Quick Auth token gives the FID, and the
+ * signed SIWE message must be for this app, this chain, this wallet and that FID,
+ * short-lived, and not seen before.
+ */
+export async function verifyWalletLink(
+  params: { token: string; walletAddress: `0x${string}`; message: string; signature: Hex },
+  verifier: WalletLinkVerifier
+): Promise<WalletLinkResult> {
+  const fid = await verifyQuickAuthToken(params.token, verifier);
+  if (fid === null) {
+    return { valid: false, reason: 'Invalid Farcaster credential' };
+  }
+
+  const siwe = parseSiweMessage(params.message);
+  const fieldsValid = validateSiweMessage({
+    message: siwe,
+    address: params.walletAddress,
+    domain: APP_DOMAIN,
+  });
+  const { issuedAt, expirationTime, nonce } = siwe;
+  if (
+    !fieldsValid ||
+    siwe.chainId !== baseSepolia.id ||
+    !issuedAt ||
+    !expirationTime ||
+    !nonce ||
+    issuedAt.getTime() > Date.now() ||
+    expirationTime.getTime() - issuedAt.getTime() > WALLET_LINK_MAX_TTL_MS ||
+    !siwe.resources?.includes(fidResource(fid))
+  ) {
+    return { valid: false, reason: 'Wallet message does not match this link request' };
+  }
+
+  if (!(await verifier.verifyWalletSignature(params.walletAddress, params.message, params.signature))) {
+    return { valid: false, reason: 'Invalid wallet signature' };
+  }
+
+  // Only a correctly signed message uses up its nonce
+  if (!(await verifier.consumeNonce(nonce, expirationTime))) {
+    return { valid: false, reason: 'Wallet message was already used' };
+  }
+
+  return { valid: true, fid, walletAddress: params.walletAddress };
+}
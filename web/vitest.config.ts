@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+    // walletAuth reads the app's domain from this at import time
+    env: { NEXT_PUBLIC_APP_URL: "https://wolfgame.test" },
+  },
+});